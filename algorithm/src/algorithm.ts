@@ -1,344 +1,119 @@
-import * as databaseSource from './database';
 import * as _ from 'lodash';
-import * as ProgressBar from 'progress';
+import * as dataSource from './data-source';
+import * as engine from './engine';
+import * as explanation from './explanation';
+import * as groupDefinitions from './group-definitions';
+import * as fs from 'fs';
+import * as gender from './gender';
+import * as input from './input';
+import * as objective from './objective';
+import * as progress from './progress';
+import * as regroup from './regroup';
+import * as solver from './solver';
 import * as yargs from 'yargs';
+import { getExplanationExport, getExport, getFormatForFilename } from './export';
+import { getAllMultiplier } from './scoring';
+import { getLP } from './lp';
+import { getPercent } from './statistics';
+import { Attendance } from './attendance';
+import { Group, GroupingRecord, GroupingResult, StopReason, Username } from './types';
+
+const DEFAULT_EXACT_SECONDS = 60;
+const STOP_REASON_TEXTS: { [reason in StopReason]: string } = {
+    cancelled: 'they were stopped with Ctrl-C',
+    timeLimit: 'the time limit was reached',
+    patience: 'the best run stopped improving',
+};
 
-const MOVE_ON_COUNT = 100;
-const MAX_RUN_POWER = 6.3;
-const PROGRESS_WIDTH = 40;
-
-let database = databaseSource.get();
 let gradeName = yargs.argv.grade as string;
-let groupSizesArgument = yargs.argv.sizes as string;
-let runAmountPower = yargs.argv.power as number;
-let runAmount = Math.floor(Math.pow(10, runAmountPower));
-let oneGenderGroups = yargs.argv.ignoreGender  === 'true';
-let useUsernames = yargs.argv.useUsernames === 'true';
-
-let db = database.firestore();
-
-type Username = string
-type Group = Username[]
-
-interface Preferences {
-    [username: string]: string[];
-}
-
-interface UserDetails {
-    [username: string]: {
-        isMale: boolean;
-        grade: string;
-        isGoing?: boolean;
-        preferences?: string[];
-    };
-}
-
-interface RunResult {
-    groups: Group[];
-    preferences: Preferences;
-    users: UserDetails;
-    details: {
-        groupSizes: number[];
-        groupAmount: number;
-    };
-}
-
-if (runAmountPower > MAX_RUN_POWER) {
-    console.error(runAmountPower + ' is not a vailid run power. The maximum value is ' + MAX_RUN_POWER + '.');
+let groupSizesArgument = yargs.argv.sizes as string | number | undefined;
+let runArguments = input.getRunArguments(yargs.argv);
+let { runAmount, timeLimitSeconds, patience, seed, workerAmount, shouldOptimize, useUsernames, shouldSave, rankWeights } = runArguments;
+let { outFilename, exportFormat } = runArguments;
+let objectiveConfig = runArguments.objective;
+let genderConfig = runArguments.gender;
+let dataFilename = yargs.argv.data as string | undefined;
+let balanceFilename = yargs.argv.balance as string | undefined;
+let pinsFilename = yargs.argv.pins as string | undefined;
+let previousRunID = yargs.argv.from as string | undefined;
+let groupsFilename = yargs.argv.groups as string | undefined;
+let shouldSolveExactly = yargs.argv.exact === true || yargs.argv.exact === 'true';
+let exactSeconds = yargs.argv.exactSeconds === undefined ? DEFAULT_EXACT_SECONDS : Number(yargs.argv.exactSeconds);
+let lpFilename = yargs.argv.lp as string | undefined;
+let explainFilename = yargs.argv.explain as string | undefined;
+let historyArgument = yargs.argv.history as string | undefined;
+let historySources = historyArgument ? String(historyArgument).split(',').filter((historySource) => historySource !== '') : undefined;
+let explainFormat = explainFilename ? getFormatForFilename(explainFilename) : undefined;
+
+let source = dataSource.create(dataFilename);
+let argumentError = input.getRunArgumentError(runArguments, !previousRunID);
+
+if (argumentError) {
+    console.error(argumentError);
     process.exit(1);
 }
 
-let gradePromise = db.collection('grades').doc(gradeName).get().then((snapshot) => {
-    return snapshot.data() || {};
-}) as Promise<{ [key: string]: any }>;
-
-let antiPreferencesPromise = gradePromise.then((grade) => {
-    return grade.antiPreferences || [];
-}) as Promise<string[]>;
-
-let studentNamesPromise = gradePromise.then((grade) => {
-    if (useUsernames) {
-        return {};
-    }
-
-    return grade.students || {};
-}) as Promise<{ [username: string]: string }>;
-
-let usersPromise = db.collection('user-records').get().then((snapshot) => {
-    let users: UserDetails = {};
-    let docs = snapshot.docs;
-
-    docs.forEach((doc) => {
-        if (!doc.data().grade || doc.data().grade !== gradeName) {
-            return;
-        }
-
-        users[doc.id] = doc.data() as any;
-    })
-
-    return users;
-}).catch((error: Error) => {
-    /* eslint-disable-next-line no-console */
-    console.log(error);
-}) as Promise<UserDetails>;
-
-
-let preferencesPromise = usersPromise.then((users) => {
-    let preferences: Preferences = {};
-
-    for (let username in users) {
-        if (!users[username].preferences) {
-            continue;
-        }
-
-        preferences[username] = users[username].preferences as string[];
-    }
-
-    return preferences;
-})
-
-/**
- * Returns an ordered array of descending group sizes.
- *
- * @param {string} argument The command-line argument to parse.
- * @return {number[]} The array of group sizes.
- */
-let getGroupSizes = function getGroupSizesForArgument(argument: string): number[] {
-    return argument.split('-').map(size => parseInt(size)).sort((a, b) => b - a);
-}
-
-/**
- * Creates a group with a new member.
- *
- * @param {string[]} group The old list of usernames.
- * @param {string} member The new username to add.
- * @return {string[]} The new list of usernames.
- */
-let groupWithNew = function copyGroupWithNewMember(group: Group, member: Username): Group {
-    let newGroup = group.slice();
-    newGroup.push(member);
-    return newGroup;
+if ((shouldSolveExactly || lpFilename) && genderConfig.policy === 'single') {
+    console.error('--exact and --lp can\'t be used with single-gender groups, since they can\'t keep groups to one gender.');
+    process.exit(1);
 }
 
-
-/**
- * Returns the number of users present within a single username. For example,
- * the user "mburstein2021" would have a multiplicity of 1, since there is only
- * one user. However, the joint-user "mburstein2021-auser2021--x2" has a
- * multiplicity of 2. Currently, only multipliers 1 and 2 are supported.
- *
- * @param username The username of the user to find the multiplier for.
- * @returns The multiplier value.
- */
-let getMultiplier = function getMultiplierForUsername(username: Username): number {
-    if (username.endsWith("--x5")) {
-        return 5;
-    }
-
-    if (username.endsWith("--x4")) {
-        return 4;
-    }
-
-    if (username.endsWith("--x3")) {
-        return 3;
-    }
-
-    if (username.endsWith("--x2")) {
-        return 2;
-    }
-
-    return 1;
+if (groupsFilename && groupSizesArgument !== undefined) {
+    console.error('Use either --groups or --sizes, but not both.');
+    process.exit(1);
 }
 
-let getAllMultiplier = function getMultiplierSumForUsernames(usernames: Username[]): number {
-    return usernames.reduce((sum, username) => sum + getMultiplier(username), 0);
+if (previousRunID && shouldOptimize) {
+    console.error('--optimize can\'t be used with --from, since it would move students who don\'t need to move.');
+    process.exit(1);
 }
 
-/**
- * Checks whether a group has overflowed its maximum number of a certain gender,
- * and therefore must have a member removed.
- *
- * @param {string[]} group The list of usernames to check.
- * @param {boolean} isMale Whether the gender to check is male.
- * @param {number} maxAmount The maximum number of members to allow in the group.
- * @param {number} maxAmountSame The maximum number of the same gender to allow.
- * @param {Object} users The user detail object, containing information for usernames.
- * @param {boolean} oneGender Whether or not this group should be one-gendered.
- * If not one-gendered, then the group will use `maxAmountSame` to determine
- * eligibility.
- * @return {boolean} Whether or not it has reached the maximum.
- */
-let hasMaximum = function checkGenderHasMaximum(
-    group: Group,
-    isMale: boolean,
-    maxAmount: number,
-    maxAmountSame: number,
-    oneGender: boolean,
-    users: UserDetails
-): boolean {
-    let currentAmountSame = 0;
-    let currentAmount = 0;
-
-    for (let i = 0; i < group.length; i++) {
-        currentAmount += getMultiplier(group[i]);
-
-        if (users[group[i]].isMale === isMale) {
-            currentAmountSame += getMultiplier(group[i]);
-        }
-    }
-
-    if (oneGender) {
-        // If it's a one-gender group, assume there is only one gender anyway
-        // so don't check the same-gender amount.
-        return currentAmount > maxAmount;
-    }
-
-    // Add one to the amounts, since if a new user is added it should still
-    // be checked.
-    return currentAmountSame > maxAmountSame || currentAmount > maxAmount;
+if (shouldSolveExactly && objectiveConfig.strategy !== objective.DEFAULT_STRATEGY) {
+    console.error('--exact only searches for the highest min friends, so it can only be used with the ' +
+        objective.DEFAULT_STRATEGY + ' objective.');
+    process.exit(1);
 }
 
-/**
- * Returns a score representing how much a user likes a group. In other words,
- * this is the number of friends that the user has in the group.
- *
- * @param {Object} preferences The preferences object, containing user choices.
- * @param {string[]} group The list of current group member usernames.
- * @param {string} member The member to find an favorability score for.
- * @return {number} The favorability score.
- */
-let getUGScore = function getUserGroupScore(preferences: Preferences, group: Group, member: Username): number {
-    let score = 0;
-
-    for (let i = 0; i < group.length; i++) {
-        let groupMember = group[i];
-        if (preferences[member].includes(groupMember)) {
-            score += getMultiplier(groupMember);
-        }
-    }
-
-    return score;
+if (shouldSolveExactly && previousRunID) {
+    console.error('--exact can\'t be used with --from, since it would move students who don\'t need to move.');
+    process.exit(1);
 }
 
-/**
- * Returns a user's ranking of group preferences. In other words, returns the
- * order of groups that contain the most of the user's friends (most favorite)
- * to the least (least favorite).
- *
- * @param {Object} preferences The preferences object, containing user choices.
- * @param {string[][]} groups The available groups to join. Each group is a list of member usernames.
- * @param {string} newMember The member choosing between group preferences.
- * @return {number[]} The ranking of group indices, from favorite to least.
- */
-let getUGRanking = function findRankingOfGroupsByPreferences(preferences: Preferences, groups: Group[], newMember: Username): number[] {
-    let scores = [];
-
-    for (let i = 0; i < groups.length; i++) {
-        let score = getUGScore(preferences, groups[i], newMember);
-        scores.push({ groupID: i, score });
-    }
-
-    return scores.sort((a, b): number => {
-        if (a.score === b.score) {
-            // If they have the same exact score, go for the one with more members.
-            // If they have the same number of members, pick randomly.
-            let lengthDifference = groups[b.groupID].length - groups[a.groupID].length;
-
-            if (lengthDifference === 0) {
-                return _.sample([-1, 1])!;
-            }
-
-            return lengthDifference;
-        }
-
-        // Otherwise, bigger score wins.
-        return b.score - a.score;
-    }).map((value) => {
-        // Now that they're sorted, return just the group ID.
-        return value.groupID;
-    });
+if (!(exactSeconds > 0)) {
+    console.error('--exactSeconds must be a positive number of seconds.');
+    process.exit(1);
 }
 
-/**
- * Returns whether or not a user can try to join a group. Note, this does not
- * mean that the user can join; rather, it means that no-one in the group has
- * an anti-preference against the user.
- *
- * @param {string[]} antiPreferences The array of hyphenated anti-preference
- * combinations.
- * @param {string[]} group The array of group member usernames.
- * @param {string} username The username trying to join the group.
- * @return {boolean} Whether or not the user should attempt joining the group.
- */
-let canTryJoiningGroup = function canJoinWithoutConflict(antiPreferences: string[], group: Group, username: Username): boolean {
-    for (let i = 0; i < group.length; i++) {
-        let hyphenatedCombinationA = [group[i], username].join('__');
-        let hyphenatedCombinationB = [username, group[i]].join('__');
-
-        if (antiPreferences.includes(hyphenatedCombinationA)) {
-            return false;
-        }
-
-        if (antiPreferences.includes(hyphenatedCombinationB)) {
-            return false;
-        }
-    }
-
-    return true;
+if (explainFilename && !explainFormat) {
+    console.error('Could not tell the format of ' + explainFilename + '. Use a file ending in .json, .csv, .md, or .html.');
+    process.exit(1);
 }
 
 /**
- * Returns a score representing how acceptable a user is within a group. In other
- * words, this is the number of people in the group who listed them as a friend.
+ * Reads a JSON file.
  *
- * @param {Object} preferences The preferences object, containing user choices.
- * @param {string[]} group The list of current group member usernames.
- * @param {string} member The member to find an acceptability score for.
- * @return {number} The acceptability score.
+ * @param {string} filename The path of the file.
+ * @return {*} The parsed contents.
  */
-let getGUScore = function getUserGroupScore(preferences: Preferences, group: Group, member: Username): number {
-    let score = 0;
-
-    for (let i = 0; i < group.length; i++) {
-        let groupMember = group[i];
-        if (preferences[groupMember].includes(member)) {
-            score += getMultiplier(member) * getMultiplier(groupMember);
-        }
-    }
-
-    return score;
+let readJSON = function readJSONFile(filename: string): any {
+    return JSON.parse(fs.readFileSync(filename, 'utf-8'));
 }
 
-/**
- * Returns a group's ranking of acceptable users. In other words, returns the
- * order of users with the most people who listed them as friends in the group
- * (most accepted) to the least (least accepted).
- *
- * @param {Object} preferences The preferences object, containing user choices.
- * @param {string[]} group The list of potential group member usernames.
- * @return {string[]} The ranking of usernames, from most acceptable to least.
- */
-let getGURanking = function findRankingOfGroupsByPreferences(preferences: Preferences, group: Group): Username[] {
-    let scores = [];
-
-    for (let i = 0; i < group.length; i++) {
-        let score = getGUScore(preferences, group, group[i]);
-        scores.push({ username: group[i], score, index: i });
-    }
-
-    return scores.sort((a, b) => {
-        if (a.score === b.score) {
-            // If they have the same exact score, go for the older member.
-            return a.index - b.index;
-        }
-
-        // Otherwise, bigger score wins.
-        return b.score - a.score;
-    }).map((value) => {
-        // Now that they're sorted, return just the member username.
-        return value.username;
+// Files are read within the promise, so that a file that can't be read is
+// reported like any other error. Named groups, balance constraints, and pins
+// from a file replace any on the grade document.
+let loadedPromise = Promise.resolve().then(() => {
+    return input.load(source, gradeName, {
+        groupSizes: groupSizesArgument === undefined ? undefined : input.getGroupSizes(String(groupSizesArgument)),
+        groupDefinitions: groupsFilename ? readJSON(groupsFilename) : undefined,
+        balanceConstraints: balanceFilename ? readJSON(balanceFilename) : undefined,
+        pins: pinsFilename ? readJSON(pinsFilename) : undefined,
+        rankWeights,
+        historySources,
+        previousRunID,
+        useUsernames,
     });
-}
+});
 
 /**
  * Converts an array of groups containing usernames into an array of groups
@@ -355,441 +130,344 @@ let getGroupsWithNames = function getGroupsWithFullNames(
 ): string[][] {
     return groups.map((group: Group) => {
         return group.map((username: Username) => {
-            return useUsernames ? username : studentNames[username];
+            return useUsernames ? username : studentNames[username] || username;
         });
     });
 }
 
 /**
- * Returns the favorability metric of a group. This is the number of friendships
- * divided by the number of possible friendships.
+ * Logs group results and statistics to the console.
  *
- * @param {string[]} group The array of member usernames.
- * @param {Object} preferences The preferences object.
- * @return {number} The favorability value.
+ * @param {Object} result The grouping result, containing the groups and their
+ * statistics.
+ * @param {Object} studentNames An object of usernames and their corresponding
+ * student names.
+ * @param {Object} currentAttendance The attendance, with the users who were
+ * left out.
  */
-let getPercentFavorability = function getPercentFavorabilityForGroup(group: Group, preferences: Preferences): number {
-    // If it's an empty group, then instead of returning NaN, treat
-    // as a "perfect" group.
-    if (group.length === 0) {
-        return 1;
+let output = function outputResults(
+    result: GroupingResult,
+    studentNames: { [username: string]: string },
+    currentAttendance: Attendance
+): void {
+    let statistics = result.statistics;
+    let groupsWithNames = getGroupsWithNames(result.groups, studentNames);
+
+    /* eslint-disable no-console */
+    console.log('### GROUPS: ###');
+    console.log(groupsWithNames.map((group, i) => {
+        return [groupDefinitions.getName(i, result.details.groupDefinitions), getAllMultiplier(group), group];
+    }));
+    console.log('### DETAILS: ###');
+    console.log(' - Group Amount');
+    console.log(result.details.groupAmount);
+    console.log(' - Available Group Sizes');
+    console.log(result.details.groupSizes);
+    console.log(' - Seed');
+    console.log(result.details.seed);
+
+    if (result.runs && result.runs.stopReason) {
+        console.log(' - Stopped early');
+        console.log('After ' + result.runs.runCount + ' runs, since ' + STOP_REASON_TEXTS[result.runs.stopReason]);
+    }
+
+    console.log(' - Pinned Users');
+    console.log(Object.keys(result.details.pins || {}).length);
+    console.log(' - Actual Group Sizes');
+    console.log(statistics.groupSizes);
+    console.log(' - User Count');
+    console.log(statistics.userCount);
+    console.log('### RESULTS: ###');
+    console.log(' - Biggest Group Size');
+    console.log(statistics.biggestGroupSize);
+    console.log(' - Smallest Group Size');
+    console.log(statistics.smallestGroupSize);
+    console.log('### STATS: ###');
+    console.log(' - Placed %');
+    console.log(getPercent(statistics.placedPercent));
+    console.log(' - Chosen %');
+    console.log(getPercent(statistics.chosePercent));
+    console.log(' - Avg favorability %');
+    console.log(getPercent(statistics.avgPercentFavorability));
+    console.log(' - Max favorability %');
+    console.log(getPercent(statistics.maxPercentFavorability));
+    console.log(' - Min favorability %');
+    console.log(getPercent(statistics.minPercentFavorability));
+    console.log(' - Min friends')
+    console.log(statistics.minFriends);
+    console.log(' - Min friends users')
+    console.log(statistics.minFriendsUsernames.join(' '));
+    console.log(' - Gender distribution');
+    console.log(_.toPairs(gender.getDistribution(Object.keys(result.users), gender.getAll(result.users))).sort()
+        .map((pair) => pair[0] + ' ' + pair[1]).join(', '));
+
+    for (let genderName of Object.keys(statistics.genderRatios)) {
+        console.log(' - Avg ' + genderName + ' %');
+        console.log(getPercent(_.mean(statistics.genderRatios[genderName])));
+        console.log(' - Max ' + genderName + ' %');
+        console.log(getPercent(_.max(statistics.genderRatios[genderName])!));
+        console.log(' - Min ' + genderName + ' %');
+        console.log(getPercent(_.min(statistics.genderRatios[genderName])!));
     }
 
-    let currentFriendsSum = 0;
+    console.log(' - Soft anti-preferences together');
+    console.log(statistics.softAntiPreferenceCount);
 
-    for (let i = 0; i < group.length; i++) {
-        for (let j = 0; j < group.length; j++) {
-            if (preferences[group[i]] && preferences[group[i]].includes(group[j])) {
-                currentFriendsSum += getMultiplier(group[i]) * getMultiplier(group[j]);
-            }
-        }
+    if (result.details.history) {
+        console.log(' - Repeat pairs from past groupings');
+        console.log(statistics.repeatPairCount);
     }
 
-    return currentFriendsSum / ((getAllMultiplier(group) - 1) * (getAllMultiplier(group) - 1) * 2);
-}
+    if (result.changes) {
+        let getGroupLabel = (index?: number): string => {
+            return index === undefined ? 'none' : groupDefinitions.getName(index, result.details.groupDefinitions);
+        };
 
-/**
- * Returns the fraction of a group that is male.
- *
- * @param {string[]} group The array of member usernames.
- * @param {Object} users The user details object.
- * @return {number} The gender ratio.
- */
-let getGenderRadio = function getGenderRatioForGroup(group: Group, users: UserDetails): number {
-    let currentMales = 0;
+        console.log('### CHANGES: ###');
+        console.log(' - Changed users');
+        console.log(result.changes.length);
 
-    for (let i = 0; i < group.length; i++) {
-        if (users[group[i]].isMale) {
-            currentMales++;
+        for (let change of result.changes) {
+            console.log(' - ' + getGroupsWithNames([[change.username]], studentNames)[0][0]);
+            console.log(getGroupLabel(change.from) + ' -> ' + getGroupLabel(change.to));
         }
     }
 
-    return currentMales / group.length;
-}
+    if (currentAttendance.excluded.length > 0) {
+        console.log('### EXCLUDED: ###');
 
-/**
- * Returns the lowest number of friends for any registered user in any group.
- * In other words, this is the minimum number of friends of any user who
- * listed preferences.
- *
- * @param {string[]} groups The array of groups to check.
- * @param {Object} preferences The preferences object to use when determining
- * friendship counts.
- * @return {Object} An object containing a `minFriends` key of the minimum
- * friends value and a `usernames` key containing all users with that number
- * of friends.
- */
-let getMinFriends = function getMinimumFriendsScore(groups: Group[], preferences: Preferences): { minFriends: number; usernames: Username[] } {
-    let currentMinFriends = Infinity;
-    let currentUsersWithMinFriends: Username[] = [];
+        for (let exclusion of currentAttendance.excluded) {
+            let droppedCount = currentAttendance.droppedPicks.filter((droppedPick) => droppedPick.pick === exclusion.username).length;
 
-    for (let i = 0; i < groups.length; i++) {
-        let group = groups[i];
+            console.log(' - ' + getGroupsWithNames([[exclusion.username]], studentNames)[0][0]);
+            console.log(exclusion.reason + (droppedCount > 0 ? ', dropped from ' + droppedCount + ' preference lists' : ''));
+        }
 
-        for (let j = 0; j < group.length; j++) {
-            let username = group[j];
+        if (currentAttendance.emptiedUsernames.length > 0) {
+            console.log(' - Left without preferences');
+            console.log(getGroupsWithNames([currentAttendance.emptiedUsernames], studentNames)[0]);
+        }
+    }
 
-            // If they don't have preferences, they shouldn't be analyzed.
-            if (!preferences[username]) {
-                continue;
-            }
+    if (Object.keys(statistics.attributeDistributions).length > 0) {
+        console.log('### BALANCE: ###');
+        console.log(' - Violations');
+        console.log(statistics.balanceViolations);
 
-            let friends = preferences[username];
-            let currentFriendsCount = 0;
+        for (let attribute in statistics.attributeDistributions) {
+            console.log(' - ' + attribute);
+            console.log(statistics.attributeDistributions[attribute]);
+        }
+    }
 
-            for (let k = 0; k < group.length; k++) {
-                if (friends.includes(group[k])) {
-                    currentFriendsCount++;
-                }
-            }
+    console.log('### SCORE: ###');
+    console.log(' - Objective');
+    console.log(result.score.strategy);
 
-            if (currentFriendsCount === currentMinFriends) {
-                currentUsersWithMinFriends.push(username)
-            }
+    for (let termName in result.score.terms) {
+        console.log(' - ' + termName);
+        console.log(result.score.terms[termName]);
+    }
 
-            if (currentFriendsCount < currentMinFriends) {
-                currentMinFriends = currentFriendsCount;
-                currentUsersWithMinFriends = [username];
-            }
-        }
+    console.log(' - Score (lower is better)');
+    console.log(result.score.score.join(', '));
+
+    if (result.optimization) {
+        let before = result.optimization.before;
+
+        console.log('### OPTIMIZATION: ###');
+        console.log(' - Moves and swaps');
+        console.log(result.optimization.moveCount + ' moves, ' + result.optimization.swapCount + ' swaps');
+        console.log(' - Min friends');
+        console.log(before.minFriends + ' -> ' + statistics.minFriends);
+        console.log(' - Min friends user count');
+        console.log(before.minFriendsUsernames.length + ' -> ' + statistics.minFriendsUsernames.length);
+        console.log(' - Min favorability %');
+        console.log(getPercent(before.minPercentFavorability) + ' -> ' + getPercent(statistics.minPercentFavorability));
+        console.log(' - Avg favorability %');
+        console.log(getPercent(before.avgPercentFavorability) + ' -> ' + getPercent(statistics.avgPercentFavorability));
     }
 
-    return { minFriends: currentMinFriends, usernames: currentUsersWithMinFriends };
+    if (result.solver) {
+        let solverReport = result.solver;
+
+        console.log('### SOLVER: ###');
+        console.log(' - Heuristic min friends');
+        console.log(solverReport.heuristicMinFriends);
+        console.log(' - Solver min friends');
+        console.log(solverReport.upperBound === -Infinity ? 'No grouping fits every hard limit' : solverReport.minFriends);
+        console.log(' - Upper bound');
+        console.log(solverReport.upperBound + (solverReport.isOptimal ? ' (proven optimal)' :
+            solverReport.isTimedOut ? ' (time limit reached)' : ''));
+        console.log(' - Optimality gap of heuristic');
+        console.log(solverReport.upperBound === -Infinity ? 'None, since nothing fits every hard limit' :
+            solverReport.gap + (solverReport.upperBound > 0 ? ' (' + getPercent(solverReport.gap / solverReport.upperBound) + ')' : ''));
+        console.log(' - Search');
+        console.log(solverReport.nodeCount + ' nodes in ' + solverReport.seconds.toFixed(1) + 's');
+    }
+    /* eslint-enable no-console */
 }
 
 /**
- * Returns a string representation of a percent value.
+ * Saves the best result as a new draft run of the grade, and logs its ID.
  *
- * @param {number} number The decimal value, from 0 to 1.
- * @return {string} The percentage representation.
+ * @param {Object} result The grouping result to save.
+ * @param {Object} currentAttendance The attendance, with the users who were
+ * left out.
+ * @return {Promise} A promise that resolves when the run has been saved.
  */
-let getPercent = function getPercentString(number: number): string {
-    return (number * 100).toFixed(2) + '%';
-}
+let save = function saveResult(result: GroupingResult, currentAttendance: Attendance): Promise<void> {
+    let record: GroupingRecord = {
+        groups: result.groups,
+        parameters: {
+            groupSizes: result.details.groupSizes,
+            runAmount: previousRunID ? 0 : result.runs ? result.runs.runCount : runAmount,
+            gender: genderConfig,
+            objective: objectiveConfig,
+            rankWeights,
+            balanceConstraints: result.details.balanceConstraints,
+            togetherWith: result.details.togetherWith,
+            excludedUsernames: currentAttendance.excluded.map((exclusion) => exclusion.username),
+            pins: result.details.pins,
+            previousRunID,
+            groupDefinitions: result.details.groupDefinitions,
+            historySources,
+        },
+        seed: result.details.seed,
+        statistics: result.statistics,
+        score: result.score,
+        placements: result.placements,
+        createdAt: new Date().toISOString(),
+        status: 'draft',
+    };
 
+    return source.saveGrouping(gradeName, record).then((runID) => {
+        /* eslint-disable-next-line no-console */
+        console.log('Saved draft run ' + runID + ' for ' + gradeName + '.');
+    });
+}
 
 /**
- * Logs group results and statistics to the console.
+ * Outputs, exports, and saves a result, depending on the command-line
+ * arguments.
  *
- * @param {string[][]} groups The array of created groups.
- * @param {Object} preferences The preferences object, to be used in statistics.
- * @param {Object} users The user details object, to be used in statistics.
- * @param {Object} details The program details object, to be used in statistics.
- * @param {Object} studentNames An object of usernames and their corresponding
- * student names.
+ * @param {Object} result The grouping result.
+ * @return {Promise} A promise that resolves when the result has been saved,
+ * if it is being saved.
  */
-let output = function outputResults(
-    groups: Group[],
-    preferences: Preferences,
-    users: UserDetails,
-    details: { [key: string]: any },
-    studentNames: { [username: string]: string }
-): void {
-    let percentFavorabilities = groups.map((group: Group) => {
-        return getPercentFavorability(group, preferences);
-    });
-
-    let avgPercentFavorability = _.mean(percentFavorabilities)!;
-    let maxPercentFavorability = _.max(percentFavorabilities)!;
-    let minPercentFavorability = _.min(percentFavorabilities)!;
-
-    let genderRatios = groups.map((group: Group) => {
-        return getGenderRadio(group, users);
-    });
-
-    let avgGenderRatio = _.mean(genderRatios)!;
-    let maxGenderRatio = _.max(genderRatios)!;
-    let minGenderRatio = _.min(genderRatios)!;
+let report = function reportResult(result: GroupingResult): Promise<void> {
+    return loadedPromise.then((loaded) => {
+        let students = loaded.studentNames;
+        let currentAttendance = loaded.attendance;
+
+        if (exportFormat && !outFilename) {
+            // Only print the export, so that it can be piped elsewhere.
+            process.stdout.write(getExport(result, students, exportFormat));
+        } else {
+            output(result, students, currentAttendance);
+        }
 
-    let currentPlacedCount = 0;
-    let currentBiggestGroupSize = 0;
-    let currentSmallestGroupSize = Infinity;
+        if (exportFormat && outFilename) {
+            fs.writeFileSync(outFilename, getExport(result, students, exportFormat));
+            /* eslint-disable-next-line no-console */
+            console.log('Wrote ' + exportFormat + ' results to ' + outFilename + '.');
+        }
 
-    for (let i = 0; i < groups.length; i++) {
-        currentPlacedCount += groups[i].length;
+        if (explainFilename && explainFormat) {
+            let explanations = explanation.explain(result, genderConfig, students);
+            fs.writeFileSync(explainFilename, getExplanationExport(explanations, explainFormat));
 
-        if (getAllMultiplier(groups[i]) > currentBiggestGroupSize) {
-            currentBiggestGroupSize = groups[i].length;
+            if (!exportFormat || outFilename) {
+                /* eslint-disable-next-line no-console */
+                console.log('Wrote the explanations of ' + explanations.length + ' students to ' + explainFilename + '.');
+            }
         }
 
-        if (getAllMultiplier(groups[i]) < currentSmallestGroupSize) {
-            currentSmallestGroupSize = groups[i].length;
+        if (shouldSave) {
+            return save(result, currentAttendance);
         }
-    }
-
-    let placedPercent = currentPlacedCount / Object.keys(users).length;
-    let chosePercent = Object.keys(preferences).length / Object.keys(users).length;
-    let minFriends = getMinFriends(groups, preferences);
-    let groupsWithNames = getGroupsWithNames(groups, studentNames);
-
-    /* eslint-disable no-console */
-    console.log('### GROUPS: ###');
-    console.log(groupsWithNames.map((group) => [getAllMultiplier(group), group]));
-    console.log('### DETAILS: ###');
-    console.log(' - Group Amount');
-    console.log(details.groupAmount);
-    console.log(' - Available Group Sizes');
-    console.log(details.groupSizes);
-    console.log(' - Actual Group Sizes');
-    console.log(groups.map((group) => getAllMultiplier(group)).sort((a, b) => b - a));
-    console.log(' - User Count');
-    console.log(getAllMultiplier(Object.keys(users)));
-    console.log('### RESULTS: ###');
-    console.log(' - Biggest Group Size');
-    console.log(currentBiggestGroupSize);
-    console.log(' - Smallest Group Size');
-    console.log(currentSmallestGroupSize);
-    console.log('### STATS: ###');
-    console.log(' - Placed %');
-    console.log(getPercent(placedPercent));
-    console.log(' - Chosen %');
-    console.log(getPercent(chosePercent));
-    console.log(' - Avg favorability %');
-    console.log(getPercent(avgPercentFavorability));
-    console.log(' - Max favorability %');
-    console.log(getPercent(maxPercentFavorability));
-    console.log(' - Min favorability %');
-    console.log(getPercent(minPercentFavorability));
-    console.log(' - Min friends')
-    console.log(minFriends.minFriends);
-    console.log(' - Min friends users')
-    console.log(minFriends.usernames.join(' '));
-    console.log(' - Avg male %');
-    console.log(getPercent(avgGenderRatio));
-    console.log(' - Max male %');
-    console.log(getPercent(maxGenderRatio));
-    console.log(' - Min male %');
-    console.log(getPercent(minGenderRatio));
-    /* eslint-enable no-console */
+    });
 }
 
-
 /**
- * Runs the main algorithm process.
+ * Loads the grade, runs the algorithm multiple times, and outputs the best
+ * combination of groups. Pressing Ctrl-C stops the runs and goes on with the
+ * best run so far, and pressing it again quits.
  *
- * @param {Promise<Object>} preferencesPromise A promise of user
- * preferences, where keys are usernames and values are arrays of friend usernames.
- * @param {Promise<Object>} usersPromise A promise of user details,
- * where keys are usernames and values are user details such as `isMale` and
- * `grade`.
- * @param {Promise<string[]>} antiPreferencesPromise A promise of user pairs that
- * cannot be paired together. The format is the usernames in alphebetical order
- * hyphenated.
- * @param {number} runID The ID for this algorithm run, which is used for
- * debugging purposes.
- * @return {Promise<Object>} A promise of an object with keys `groups`, `preferences`,
- * and `users`, where `groups` is the array of member arrays for each group,
- * `preferences` is the result of `preferencesPromise`, and `users` is the result
- * of usersPromise.
+ * @return {Promise} A promise that resolves when the best group has been found.
  */
-let run = function runAlgorithmOnce(preferencesPromise: Promise<Preferences>, antiPreferencesPromise: Promise<string[]>, usersPromise: Promise<UserDetails>, runID: number, progressBar: ProgressBar): Promise<RunResult> {
-    return Promise.all([preferencesPromise, usersPromise, antiPreferencesPromise]).then((results) => {
-        // `preferences` may be incomplete for users who haven't filled out the form,
-        // but `users` will always be complete.
-        let preferences = results[0];
-        let users = results[1];
-        let antiPreferences = results[2];
-        let totalUsersCount = getAllMultiplier(Object.keys(users));
-        let groupSizes = getGroupSizes(groupSizesArgument);
-
-        // For now, just focus on listed preferences, since users who filled out the ranking
-        // should get priority over those who didn't
-        let usernames = Object.keys(preferences);
-        let allUsernames = Object.keys(users);
-        let userOrder = _.shuffle(usernames);
-
-        // Groups start out empty.
-        let groups: any[] = [];
-
-        for (let i = 0; i < groupSizes.length; i++) {
-            groups.push([]);
+let runMany = function runAlgorithmAndFindBest(runAmount: number): Promise<void> {
+    let timeLimit = timeLimitSeconds === undefined ? undefined : timeLimitSeconds * 1000;
+    let emitter = progress.createEmitter();
+    let stopSignal = engine.createStopSignal();
+    let onInterrupt = (): void => {
+        if (engine.isStopped(stopSignal)) {
+            process.exit(130);
         }
 
-        let placedUsers: Username[] = [];
-        let hasUpdatedThisLoop = false;
-        let currentLoopAmounts = 0;
-
-        // Loop through given users until the best matches are made.
-        for (let i = 0; i < userOrder.length; i++) {
-            let username = userOrder[i];
-            let user = users[username];
+        engine.stop(stopSignal);
+        console.error('\nStopping after the current runs. Press Ctrl-C again to quit without the results.');
+    };
 
-            if (placedUsers.includes(username)) {
-                continue;
-            }
+    process.on('SIGINT', onInterrupt);
 
-            let ugRanked = getUGRanking(preferences, groups, username);
-
-            ugRankLoop: for (let j = 0; j < ugRanked.length; j++) {
-                let groupID = ugRanked[j];
-
-                // If it can't join because of an anti-preference, continue
-                // with the next attempt.
-                if (!canTryJoiningGroup(antiPreferences, groups[groupID], username)) {
-                    continue ugRankLoop;
-                }
-
-                let guRanked = getGURanking(preferences, groupWithNew(groups[groupID], username));
-                groups[groupID] = guRanked;
-                placedUsers.push(username);
-
-                // If we're at the maximum, we have to remove the least-liked user
-                // of the same gender as the user we just added. This is potentially
-                // the same user as the new one.
-                if (hasMaximum(guRanked, user.isMale, groupSizes[groupID], Math.floor(groupSizes[groupID] / 2), oneGenderGroups, users)) {
-                    let currentRemovedUsers = 0;
-
-                    for (let k = guRanked.length - 1; k >= 0; k--) {
-                        if (users[guRanked[k]].isMale === user.isMale) {
-                            let removedUser = guRanked[k];
-                            guRanked.splice(k, 1);
-                            currentRemovedUsers += getMultiplier(removedUser);
-
-                            _.remove(placedUsers, (placedUser) => {
-                                return placedUser === removedUser
-                            });
-
-                            // If enough users have been removed to cancel-out
-                            // the new ones, continue with the next step.
-                            // Otherwise, keep removing another user.
-                            if (currentRemovedUsers >= getMultiplier(username)) {
-                                if (username === removedUser) {
-                                    continue ugRankLoop;
-                                }
-
-                                hasUpdatedThisLoop = true;
-                                break ugRankLoop;
-                            }
-                        }
-                    }
-                }
-
-                hasUpdatedThisLoop = true;
-                break ugRankLoop;
-            }
+    return loadedPromise.then((loaded) => {
+        if (lpFilename) {
+            fs.writeFileSync(lpFilename, getLP(loaded.input, genderConfig));
 
-            // If there was a change in the last loop, it's possible there will
-            // be another in this one. If there was no change, then there can't
-            // be one this time either.
-            if (i === userOrder.length - 1 && placedUsers.length < userOrder.length && hasUpdatedThisLoop && currentLoopAmounts < MOVE_ON_COUNT) {
-                hasUpdatedThisLoop = false;
-                i = -1;
-                currentLoopAmounts++;
+            if (!exportFormat || outFilename) {
+                /* eslint-disable-next-line no-console */
+                console.log('Wrote the integer program to ' + lpFilename + '.');
             }
         }
 
-        // Loop through all unplaced users, including both those who didn't list
-        // preferences as well as the few who couldn't even be fit within
-        // the initial maximum limits.
-        allUsernamesLoop: for (let i = 0; i < allUsernames.length; i++) {
-            if (placedUsers.includes(allUsernames[i])) {
-                continue;
+        progress.showBar(emitter, 'Working…', runAmount, timeLimit);
+
+        return engine.makeGroups(loaded.input, {
+            runAmount,
+            gender: genderConfig,
+            seed,
+            workerAmount,
+            optimize: shouldOptimize,
+            objective: objectiveConfig,
+            onProgress: emitter.emit,
+            stopSignal,
+            timeLimit,
+            patience,
+            // Ctrl-C can only be handled while the runs are on other threads.
+            isInBackground: true,
+        }).then((result) => {
+            process.removeListener('SIGINT', onInterrupt);
+
+            if (!shouldSolveExactly) {
+                return result;
             }
 
-            // Sort the groups by the number of remaining spots, so that less-full
-            //  groups are tried first before more-full ones. This prevents the same groups.
-            // from filling at the end and getting disproportionately larger.
-            // If there are ties, break them by the number of friends in the group.
-            let sizeSortedGroups = _.sortBy(_.zip(groups, groupSizes), [
-                (groupZip) => {
-                    return getAllMultiplier(groupZip[0]) - (groupZip[1] as number);
-                },
-                (group) => {
-                    if (!preferences[allUsernames[i]]) {
-                        return 0;
-                    }
-
-                    return getUGScore(preferences, group, allUsernames[i]);
-                },
-            ]).map(groupZip => groupZip[0]) as Group[];
-
-            // Loop through all groups 3 times. The first time, check if they have
-            // space, ignoring preference. Next, check if they have space ignoring
-            // preference and gender. Finally, check ignoring all constraints.
-            for (let j = 0; j < sizeSortedGroups.length * 3; j++) {
-                let effectiveGenderSize = j < sizeSortedGroups.length ? Math.floor(groupSizes[j] / 2) : Infinity;
-                let effectiveGroupSize = j < sizeSortedGroups.length * 2 ? groupSizes[j] : Infinity;
-
-                if (!canTryJoiningGroup(antiPreferences, sizeSortedGroups[j % sizeSortedGroups.length], allUsernames[i])) {
-                    continue;
-                }
-
-                if (hasMaximum(sizeSortedGroups[j % sizeSortedGroups.length], users[allUsernames[i]].isMale, effectiveGroupSize, effectiveGenderSize, oneGenderGroups, users)) {
-                    continue;
-                }
-
-                // Theoretically, adding regardless of preference here isn't ideal.
-                // However, since the only users who aren't placed are those who
-                // have the lowest GU scores anyway, it makes sense that they would have
-                // less choice in the decision-making. Also, randomness makes
-                // this more "fair" as well.
-                sizeSortedGroups[j % sizeSortedGroups.length].push(allUsernames[i]);
-                continue allUsernamesLoop;
-            }
-        }
-
-        progressBar.tick();
-
-        return {
-            groups,
-            preferences,
-            users,
-            details: {
-                groupSizes: groupSizes,
-                groupAmount: groupSizes.length,
-            },
-        };
-    });
+            return solver.solveFromResult(loaded.input, result, {
+                gender: genderConfig,
+                timeLimit: exactSeconds * 1000,
+                seed: result.details.seed,
+            }, objectiveConfig);
+        });
+    }).then(report);
 }
 
 /**
- * Runs the main algorithm process asynchronously multiple times, and finds
- * the best combination of groups. This combination is outputted.
+ * Loads the grade and a saved run, rearranges the run's groups to fit the
+ * current roster while moving as few students as possible, and outputs the
+ * new groups along with who moved.
  *
- * @return {Promise} A promise that resolves when the best group has been found.
+ * @return {Promise} A promise that resolves when the groups have been output.
  */
-let runMany = function runAlgorithmAndFindBest(runAmount: number): Promise<void> {
-    let runningPromises = [];
-
-    let progressBar = new ProgressBar('Working… [:bar] :rate/s :percent :etas', {
-        complete: '=',
-        head: '>',
-        incomplete: ' ',
-        width: PROGRESS_WIDTH,
-        total: runAmount,
-    });
-
-    for (let i = 0; i < runAmount; i++) {
-        runningPromises.push(run(preferencesPromise, antiPreferencesPromise, usersPromise, i, progressBar));
-    }
-
-    return Promise.all(runningPromises).then((results) => {
-        // Sort by the minimum friends number, the number of usernames with that
-        // number, and finally the minimum favorability percent for finding the
-        // "best."
-        let bestResult = _.sortBy(results, [
-            (result: RunResult) => {
-                let minFriends = getMinFriends(result.groups, result.preferences);
-                return minFriends.minFriends;
-            },
-            (result: RunResult) => {
-                let minFriends = getMinFriends(result.groups, result.preferences);
-                return minFriends.usernames.length;
-            },
-            (result: RunResult) => {
-                // The minimum percent favorability should be as high as
-                // possible, so it should be negative.
-                let percentFavorabilities = result.groups.map((group: Group) => {
-                    return getPercentFavorability(group, result.preferences);
-                });
-                return -_.min(percentFavorabilities)!;
-            },
-        ])[0];
-
-        studentNamesPromise.then((students: { [username: string]: string }) => {
-            output(bestResult.groups, bestResult.preferences, bestResult.users, bestResult.details, students);
-        });
-    });
+let regroupFromPrevious = function regroupFromPreviousRun(): Promise<void> {
+    return loadedPromise.then((loaded) => {
+        return regroup.regroup(loaded.input, loaded.previousRecord!.groups, genderConfig, objectiveConfig);
+    }).then(report);
 }
 
-runMany(runAmount);
+let mainPromise = previousRunID ? regroupFromPrevious() : runMany(runAmount);
+
+mainPromise.catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+});
@@ -0,0 +1,160 @@
+import { AntiPreference, AntiPreferenceSeverity, Group, UserDetails } from './types';
+
+export const SEVERITIES: AntiPreferenceSeverity[] = ['hard', 'soft'];
+
+/**
+ * The severity of the anti-preference between every pair of users, keyed by
+ * both usernames in both orders.
+ */
+export interface AntiPreferenceLookup {
+    [username: string]: { [otherUsername: string]: AntiPreferenceSeverity };
+}
+
+/**
+ * Splits an older `a__b` anti-preference string into its two usernames.
+ * Since usernames may contain `__` themselves, the split that gives two known
+ * usernames is used, falling back to the first `__`.
+ *
+ * @param {string} combination The hyphenated combination.
+ * @param {Object} users The user details object.
+ * @return {string[]} The two usernames.
+ */
+let splitCombination = function splitHyphenatedCombination(combination: string, users: UserDetails): string[] {
+    let index = combination.indexOf('__');
+
+    while (index !== -1) {
+        let usernameA = combination.slice(0, index);
+        let usernameB = combination.slice(index + 2);
+
+        if (users[usernameA] && users[usernameB]) {
+            return [usernameA, usernameB];
+        }
+
+        index = combination.indexOf('__', index + 1);
+    }
+
+    index = combination.indexOf('__');
+    return index === -1 ? [combination, ''] : [combination.slice(0, index), combination.slice(index + 2)];
+}
+
+/**
+ * Converts the anti-preferences stored on a grade into the typed model. Older
+ * `a__b` strings become hard anti-preferences, and objects without a severity
+ * are treated as hard.
+ *
+ * @param {Array} entries The stored anti-preferences, as strings or objects.
+ * @param {Object} users The user details object.
+ * @return {Object[]} The typed anti-preferences.
+ */
+export let parse = function parseAntiPreferences(entries: (string | AntiPreference)[], users: UserDetails): AntiPreference[] {
+    return entries.map((entry) => {
+        if (typeof entry === 'string') {
+            let usernames = splitCombination(entry, users);
+            return { usernameA: usernames[0], usernameB: usernames[1], severity: 'hard' as AntiPreferenceSeverity };
+        }
+
+        return {
+            usernameA: entry.usernameA,
+            usernameB: entry.usernameB,
+            reason: entry.reason,
+            severity: entry.severity || 'hard',
+        };
+    });
+}
+
+/**
+ * Returns a readable description of an anti-preference, e.g., `a / b (soft)`.
+ *
+ * @param {Object} antiPreference The anti-preference.
+ * @return {string} The description.
+ */
+export let describe = function describeAntiPreference(antiPreference: AntiPreference): string {
+    return antiPreference.usernameA + ' / ' + antiPreference.usernameB + ' (' + antiPreference.severity + ')';
+}
+
+/**
+ * Returns every problem with a set of anti-preferences, such as usernames that
+ * aren't in the grade.
+ *
+ * @param {Object[]} antiPreferences The typed anti-preferences.
+ * @param {Object} users The user details object.
+ * @return {string[]} A description of each problem.
+ */
+export let getErrors = function getAntiPreferenceErrors(antiPreferences: AntiPreference[], users: UserDetails): string[] {
+    let errors: string[] = [];
+
+    for (let antiPreference of antiPreferences) {
+        for (let username of [antiPreference.usernameA, antiPreference.usernameB]) {
+            if (!users[username]) {
+                errors.push('The anti-preference ' + describe(antiPreference) + ' names ' + (username || 'a blank username') +
+                    ', who is not in the grade.');
+            }
+        }
+
+        if (antiPreference.usernameA === antiPreference.usernameB) {
+            errors.push('The anti-preference ' + describe(antiPreference) + ' pairs a user with themselves.');
+        }
+
+        if (!SEVERITIES.includes(antiPreference.severity)) {
+            errors.push('The anti-preference ' + describe(antiPreference) + ' has an unknown severity. The severities are ' +
+                SEVERITIES.join(', ') + '.');
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Builds a lookup of the severity between every pair of users. If a pair is
+ * listed more than once, hard wins over soft.
+ *
+ * @param {Object[]} antiPreferences The typed anti-preferences.
+ * @return {Object} The lookup.
+ */
+export let getLookup = function getAntiPreferenceLookup(antiPreferences: AntiPreference[]): AntiPreferenceLookup {
+    let lookup: AntiPreferenceLookup = {};
+
+    for (let antiPreference of antiPreferences) {
+        let pairs = [
+            [antiPreference.usernameA, antiPreference.usernameB],
+            [antiPreference.usernameB, antiPreference.usernameA],
+        ];
+
+        for (let pair of pairs) {
+            lookup[pair[0]] = lookup[pair[0]] || {};
+
+            if (lookup[pair[0]][pair[1]] !== 'hard') {
+                lookup[pair[0]][pair[1]] = antiPreference.severity;
+            }
+        }
+    }
+
+    return lookup;
+}
+
+/**
+ * Returns the number of pairs within a group who have a soft anti-preference.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {Object} lookup The anti-preference lookup.
+ * @return {number} The number of soft pairs.
+ */
+export let getSoftCount = function getSoftAntiPreferenceCount(group: Group, lookup: AntiPreferenceLookup): number {
+    let count = 0;
+
+    for (let i = 0; i < group.length; i++) {
+        let severities = lookup[group[i]];
+
+        if (!severities) {
+            continue;
+        }
+
+        for (let j = i + 1; j < group.length; j++) {
+            if (severities[group[j]] === 'soft') {
+                count++;
+            }
+        }
+    }
+
+    return count;
+}
@@ -0,0 +1,154 @@
+import { AntiPreference, PinEntries, UserDetails, Username } from './types';
+
+/**
+ * A user left out of grouping, along with why.
+ */
+export interface Exclusion {
+    username: Username;
+    reason: string;
+}
+
+/**
+ * A friend pick that was dropped because the picked user isn't attending.
+ */
+export interface DroppedPick {
+    username: Username;
+    pick: Username;
+}
+
+/**
+ * The users who are attending, along with who was left out and which picks
+ * were dropped as a result.
+ */
+export interface Attendance {
+    users: UserDetails;
+    excluded: Exclusion[];
+    droppedPicks: DroppedPick[];
+    // The users whose every pick was dropped, who are grouped as if they
+    // hadn't listed any preferences.
+    emptiedUsernames: Username[];
+}
+
+/**
+ * Returns whether or not a user is attending. Users are attending unless their
+ * record sets `isGoing` to false, so older records without it still count.
+ *
+ * @param {Object} users The user details object.
+ * @param {string} username The username to check.
+ * @return {boolean} Whether or not the user is attending.
+ */
+export let isAttending = function checkUserIsAttending(users: UserDetails, username: Username): boolean {
+    return !!users[username] && users[username].isGoing !== false;
+}
+
+/**
+ * Separates the attending users from those who aren't, and drops every pick of
+ * a user who isn't attending. Later picks move up a rank in their place, just
+ * as if the user had never been picked. Users left without any picks lose
+ * their preferences entirely, so that they aren't counted as choosing no-one.
+ *
+ * @param {Object} users The user details object for the whole grade.
+ * @return {Object} The attendance, with the attending users' details.
+ */
+export let get = function getAttendance(users: UserDetails): Attendance {
+    let attendance: Attendance = { users: {}, excluded: [], droppedPicks: [], emptiedUsernames: [] };
+
+    for (let username in users) {
+        if (!isAttending(users, username)) {
+            attendance.excluded.push({ username, reason: 'isGoing is false on their user record' });
+        }
+    }
+
+    let excludedUsernames = attendance.excluded.map((exclusion) => exclusion.username);
+
+    for (let username in users) {
+        if (excludedUsernames.includes(username)) {
+            continue;
+        }
+
+        let user = users[username];
+        attendance.users[username] = user;
+
+        if (!user.preferences) {
+            continue;
+        }
+
+        let dropped = user.preferences.filter((pick) => excludedUsernames.includes(pick));
+
+        if (dropped.length > 0) {
+            attendance.users[username] = Object.assign({}, user, {
+                preferences: user.preferences.filter((pick) => !excludedUsernames.includes(pick)),
+            });
+
+            if (attendance.users[username].preferences!.length === 0) {
+                delete attendance.users[username].preferences;
+                attendance.emptiedUsernames.push(username);
+            }
+
+            for (let pick of dropped) {
+                attendance.droppedPicks.push({ username, pick });
+            }
+        }
+    }
+
+    return attendance;
+}
+
+/**
+ * Removes users who aren't attending from a set of together-links. Links left
+ * with a single user no longer link anyone, so they are removed too.
+ *
+ * @param {string[]} togetherWith The array of hyphenated combinations of users
+ * who must be in the same group.
+ * @param {Object} attendance The attendance.
+ * @return {string[]} The together-links without the users who aren't
+ * attending.
+ */
+export let filterTogetherWith = function filterTogetherWithByAttendance(togetherWith: string[], attendance: Attendance): string[] {
+    let excludedUsernames = attendance.excluded.map((exclusion) => exclusion.username);
+
+    return togetherWith.map((combination) => {
+        return combination.split('__').filter((username) => !excludedUsernames.includes(username)).join('__');
+    }).filter((combination) => combination.split('__').length > 1);
+}
+
+/**
+ * Removes the anti-preferences that name a user who isn't attending, since
+ * they can't conflict with anyone.
+ *
+ * @param {Object[]} antiPreferences The typed anti-preferences.
+ * @param {Object} attendance The attendance.
+ * @return {Object[]} The anti-preferences between attending users, or users
+ * who aren't in the grade at all, so that those are still reported.
+ */
+export let filterAntiPreferences = function filterAntiPreferencesByAttendance(
+    antiPreferences: AntiPreference[],
+    attendance: Attendance
+): AntiPreference[] {
+    let excludedUsernames = attendance.excluded.map((exclusion) => exclusion.username);
+
+    return antiPreferences.filter((antiPreference) => {
+        return !excludedUsernames.includes(antiPreference.usernameA) && !excludedUsernames.includes(antiPreference.usernameB);
+    });
+}
+
+/**
+ * Removes the pins of users who aren't attending.
+ *
+ * @param {Object} pins The usernames and the group each is pinned to.
+ * @param {Object} attendance The attendance.
+ * @return {Object} The pins of the users who are attending, or who aren't in
+ * the grade at all, so that those are still reported.
+ */
+export let filterPins = function filterPinsByAttendance(pins: PinEntries, attendance: Attendance): PinEntries {
+    let excludedUsernames = attendance.excluded.map((exclusion) => exclusion.username);
+    let filtered: PinEntries = {};
+
+    for (let username in pins) {
+        if (!excludedUsernames.includes(username)) {
+            filtered[username] = pins[username];
+        }
+    }
+
+    return filtered;
+}
@@ -0,0 +1,214 @@
+import { getAllMultiplier, getMultiplier } from './scoring';
+import { BalanceConstraint, Group, UserDetails, Username } from './types';
+
+const MISSING_VALUE = '(none)';
+
+/**
+ * Returns a user's value for an attribute as a string, so that values can be
+ * used as keys.
+ *
+ * @param {Object} users The user details object.
+ * @param {string} username The user to check.
+ * @param {string} attribute The attribute name, e.g., `advisory`.
+ * @return {string} The value, or "(none)" if the user doesn't have one.
+ */
+export let getAttributeValue = function getAttributeValueForUser(users: UserDetails, username: Username, attribute: string): string {
+    let value = users[username][attribute];
+    return value === undefined || value === null ? MISSING_VALUE : String(value);
+}
+
+/**
+ * Returns how many members of a group have each value of an attribute,
+ * counting joint-users by their multiplier.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {string} attribute The attribute name.
+ * @param {Object} users The user details object.
+ * @return {Object} The number of members for each value.
+ */
+export let getDistribution = function getAttributeDistribution(
+    group: Group,
+    attribute: string,
+    users: UserDetails
+): { [value: string]: number } {
+    let distribution: { [value: string]: number } = {};
+
+    for (let username of group) {
+        let value = getAttributeValue(users, username, attribute);
+        distribution[value] = (distribution[value] || 0) + getMultiplier(username);
+    }
+
+    return distribution;
+}
+
+/**
+ * Returns the values of an attribute that a constraint limits within a group.
+ * A constraint without a `value` limits every value separately.
+ *
+ * @param {Object} constraint The balance constraint.
+ * @param {Object} distribution The group's distribution of the attribute.
+ * @return {string[]} The limited values.
+ */
+let getLimitedValues = function getLimitedValuesForConstraint(
+    constraint: BalanceConstraint,
+    distribution: { [value: string]: number }
+): string[] {
+    return constraint.value === undefined ? Object.keys(distribution) : [String(constraint.value)];
+}
+
+/**
+ * Returns by how many members a group breaks the hard limits of a set of
+ * constraints, adding up how far each value is above its maximum or below its
+ * minimum.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {Object[]} constraints The balance constraints.
+ * @param {Object} users The user details object.
+ * @return {number} The number of members beyond the limits.
+ */
+export let getViolations = function getBalanceViolations(group: Group, constraints: BalanceConstraint[], users: UserDetails): number {
+    let violations = 0;
+
+    for (let constraint of constraints) {
+        let distribution = getDistribution(group, constraint.attribute, users);
+
+        for (let value of getLimitedValues(constraint, distribution)) {
+            let amount = distribution[value] || 0;
+
+            if (constraint.max !== undefined && amount > constraint.max) {
+                violations += amount - constraint.max;
+            }
+
+            if (constraint.min !== undefined && amount < constraint.min) {
+                violations += constraint.min - amount;
+            }
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * Returns whether a group has more members of any value than a constraint's
+ * maximum allows.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {Object[]} constraints The balance constraints.
+ * @param {Object} users The user details object.
+ * @return {boolean} Whether or not a maximum has been exceeded.
+ */
+export let exceedsMaximum = function checkExceedsBalanceMaximum(group: Group, constraints: BalanceConstraint[], users: UserDetails): boolean {
+    for (let constraint of constraints) {
+        if (constraint.max === undefined) {
+            continue;
+        }
+
+        let distribution = getDistribution(group, constraint.attribute, users);
+
+        for (let value of getLimitedValues(constraint, distribution)) {
+            if ((distribution[value] || 0) > constraint.max) {
+                return true;
+            }
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Returns how many of a group's unmet minimums a user would help meet by
+ * joining it.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {string} username The user who may join.
+ * @param {Object[]} constraints The balance constraints.
+ * @param {Object} users The user details object.
+ * @return {number} The number of minimums the user would help meet.
+ */
+export let getUnmetMinimums = function getUnmetMinimumsForUser(
+    group: Group,
+    username: Username,
+    constraints: BalanceConstraint[],
+    users: UserDetails
+): number {
+    let count = 0;
+
+    for (let constraint of constraints) {
+        if (constraint.min === undefined || constraint.value === undefined) {
+            continue;
+        }
+
+        if (getAttributeValue(users, username, constraint.attribute) !== String(constraint.value)) {
+            continue;
+        }
+
+        if ((getDistribution(group, constraint.attribute, users)[String(constraint.value)] || 0) < constraint.min) {
+            count++;
+        }
+    }
+
+    return count;
+}
+
+/**
+ * Returns how far a group is from the soft target ratios of a set of
+ * constraints, as the sum of the differences between each target and the
+ * actual ratio.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {Object[]} constraints The balance constraints.
+ * @param {Object} users The user details object.
+ * @return {number} The total difference from the targets.
+ */
+export let getDeviation = function getBalanceDeviation(group: Group, constraints: BalanceConstraint[], users: UserDetails): number {
+    let groupSize = getAllMultiplier(group);
+    let deviation = 0;
+
+    if (groupSize === 0) {
+        return 0;
+    }
+
+    for (let constraint of constraints) {
+        if (constraint.target === undefined) {
+            continue;
+        }
+
+        let amount = getDistribution(group, constraint.attribute, users)[String(constraint.value)] || 0;
+        deviation += Math.abs(amount / groupSize - constraint.target);
+    }
+
+    return deviation;
+}
+
+/**
+ * Checks that a set of balance constraints is well-formed.
+ *
+ * @param {Object[]} constraints The balance constraints.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the constraints are valid.
+ */
+export let getConstraintError = function getBalanceConstraintError(constraints: BalanceConstraint[]): string | undefined {
+    if (!Array.isArray(constraints)) {
+        return 'Balance constraints must be an array.';
+    }
+
+    for (let constraint of constraints) {
+        if (!constraint || typeof constraint.attribute !== 'string') {
+            return 'Every balance constraint needs an attribute.';
+        }
+
+        if (constraint.max === undefined && constraint.min === undefined && constraint.target === undefined) {
+            return 'The balance constraint on ' + constraint.attribute + ' needs a max, min, or target.';
+        }
+
+        if ((constraint.min !== undefined || constraint.target !== undefined) && constraint.value === undefined) {
+            return 'The balance constraint on ' + constraint.attribute + ' needs a value to use a min or target.';
+        }
+
+        if (constraint.target !== undefined && (constraint.target < 0 || constraint.target > 1)) {
+            return 'The target of ' + constraint.attribute + ' must be a ratio from 0 to 1.';
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,303 @@
+import * as dataSource from './data-source';
+import * as engine from './engine';
+import * as fs from 'fs';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import * as input from './input';
+import * as plan from './plan';
+import * as progress from './progress';
+import * as yargs from 'yargs';
+import { getBatchExport, getStatisticRows } from './export';
+import { getAllMultiplier } from './scoring';
+import { getPercent } from './statistics';
+import { LoadedGrade } from './input';
+import { GradeResult, PlanEntry, Trip } from './plan';
+import { BalanceConstraint, GenderConfig, GroupDefinition, GroupingRecord, PinEntries, StopSignal } from './types';
+
+let planFilename = yargs.argv.plan as string;
+let runArguments = input.getRunArguments(yargs.argv);
+let { runAmount, timeLimitSeconds, patience, seed, workerAmount, shouldOptimize, useUsernames, shouldSave, rankWeights } = runArguments;
+let { outFilename, exportFormat } = runArguments;
+let timeLimit = timeLimitSeconds === undefined ? undefined : timeLimitSeconds * 1000;
+let objectiveConfig = runArguments.objective;
+let genderConfig = runArguments.gender;
+let dataFilename = yargs.argv.data as string | undefined;
+
+let source = dataSource.create(dataFilename);
+// The stop signal of the grade being grouped, and whether Ctrl-C has been
+// pressed.
+let stopSignal: StopSignal | undefined;
+let isInterrupted = false;
+
+if (!planFilename) {
+    console.error('Give the plan of grades to group with --plan.');
+    process.exit(1);
+}
+
+let argumentError = input.getRunArgumentError(runArguments);
+
+if (argumentError) {
+    console.error(argumentError);
+    process.exit(1);
+}
+
+/**
+ * Stops the runs of the grade being grouped, so that its best run so far is
+ * used. The grades that haven't been grouped yet get a single run each, so
+ * that every trip can still be matched up. Pressing Ctrl-C again quits.
+ */
+let onInterrupt = function stopGrouping(): void {
+    if (isInterrupted) {
+        process.exit(130);
+    }
+
+    isInterrupted = true;
+
+    if (stopSignal) {
+        engine.stop(stopSignal);
+    }
+
+    console.error('\nStopping after the current runs, and making a single run of each grade left. Press Ctrl-C again to quit ' +
+        'without the results.');
+}
+
+/**
+ * Returns the gender policy of a grade. An entry's own setting comes first,
+ * then `--genderPolicy` or `--ignoreGender`, and otherwise gender is ignored
+ * when every student has the same gender, as in a gender-split sub-grade.
+ *
+ * @param {Object} entry The plan entry.
+ * @param {Object} loaded The loaded grade.
+ * @return {Object} The gender policy.
+ */
+let getGenderConfig = function getGenderConfigForGrade(entry: PlanEntry, loaded: LoadedGrade): GenderConfig {
+    if (entry.gender !== undefined) {
+        return entry.gender;
+    }
+
+    if (entry.ignoreGender !== undefined) {
+        return { policy: entry.ignoreGender ? 'ignore' : gender.DEFAULT_POLICY };
+    }
+
+    if (runArguments.hasGenderArgument) {
+        return genderConfig;
+    }
+
+    return plan.isOneGender(loaded) ? { policy: 'ignore' } : genderConfig;
+}
+
+/**
+ * Groups one grade of the plan, showing its progress. The time limit applies
+ * to each grade. Once Ctrl-C has been pressed, the grade only gets a single
+ * run, and is noted as stopped early.
+ *
+ * @param {Object} entry The plan entry.
+ * @param {Object} loaded The loaded grade.
+ * @return {Promise<Object>} A promise of the grouped grade.
+ */
+let group = function groupGrade(entry: PlanEntry, loaded: LoadedGrade): Promise<GradeResult> {
+    let gradeGenderConfig = getGenderConfig(entry, loaded);
+    let emitter = progress.createEmitter();
+    let gradeRunAmount = isInterrupted ? 1 : runAmount;
+
+    stopSignal = engine.createStopSignal();
+    progress.showBar(emitter, loaded.gradeName, gradeRunAmount, timeLimit);
+
+    return engine.makeGroups(loaded.input, {
+        runAmount: gradeRunAmount,
+        gender: gradeGenderConfig,
+        seed,
+        workerAmount,
+        optimize: shouldOptimize,
+        objective: objectiveConfig,
+        onProgress: emitter.emit,
+        stopSignal,
+        timeLimit,
+        patience,
+        // Ctrl-C can only be handled while the runs are on other threads.
+        isInBackground: true,
+    }).then((result) => {
+        if (gradeRunAmount < runAmount) {
+            result = { ...result, runs: { runCount: result.runs ? result.runs.runCount : 1, stopReason: 'cancelled' } };
+        }
+
+        return { entry, loaded, result, gender: gradeGenderConfig };
+    });
+}
+
+/**
+ * Logs the groups and statistics of every grade, then the groups of every
+ * trip, then a one-line summary of each grade.
+ *
+ * @param {Object[]} gradeResults The grouped grades, in plan order.
+ * @param {Object[]} trips The trips the grades were matched up into.
+ */
+let output = function outputResults(gradeResults: GradeResult[], trips: Trip[]): void {
+    let getName = (gradeResult: GradeResult, username: string): string => gradeResult.loaded.studentNames[username] || username;
+
+    /* eslint-disable no-console */
+    for (let gradeResult of gradeResults) {
+        let result = gradeResult.result;
+
+        console.log('### GROUPS: ' + gradeResult.loaded.gradeName + ' ###');
+        console.log(result.groups.map((members, i) => {
+            return [
+                groupDefinitions.getName(i, result.details.groupDefinitions),
+                getAllMultiplier(members),
+                members.map((username) => getName(gradeResult, username)),
+            ];
+        }));
+        console.log('### STATS: ' + gradeResult.loaded.gradeName + ' ###');
+
+        for (let row of getStatisticRows(result)) {
+            console.log(' - ' + row[0]);
+            console.log(row[1]);
+        }
+    }
+
+    for (let trip of trips) {
+        console.log('### TRIP: ' + trip.name + ' ###');
+
+        for (let tripGroup of trip.groups) {
+            console.log(' - ' + tripGroup.name + ' (' + tripGroup.size + ' students)');
+
+            for (let part of tripGroup.parts) {
+                let gradeResult = gradeResults.filter((candidate) => candidate.loaded.gradeName === part.gradeName)[0];
+                console.log(part.gradeName + ', ' + part.groupName + ': ' +
+                    part.members.map((username) => getName(gradeResult, username)).join(', '));
+            }
+        }
+    }
+
+    console.log('### SUMMARY: ###');
+
+    for (let gradeResult of gradeResults) {
+        let statistics = gradeResult.result.statistics;
+        let runs = gradeResult.result.runs;
+
+        console.log(' - ' + gradeResult.loaded.gradeName);
+        console.log(statistics.userCount + ' students in ' + gradeResult.result.groups.length + ' groups' +
+            (gradeResult.gender.policy === 'ignore' ? ', ignoring gender' : gradeResult.gender.policy !== gender.DEFAULT_POLICY ?
+                ', ' + gradeResult.gender.policy + ' gender policy' : '') +
+            (runs && runs.stopReason ? ', stopped early after ' + runs.runCount + ' runs' : '') + ', min friends ' + statistics.minFriends +
+            ' (' + statistics.minFriendsUsernames.length + '), avg favorability ' + getPercent(statistics.avgPercentFavorability) +
+            ', min favorability ' + getPercent(statistics.minPercentFavorability));
+    }
+    /* eslint-enable no-console */
+}
+
+/**
+ * Saves the result of a grade as a new draft run of the grade, and logs its
+ * ID.
+ *
+ * @param {Object} gradeResult The grouped grade.
+ * @return {Promise} A promise that resolves when the run has been saved.
+ */
+let save = function saveResult(gradeResult: GradeResult): Promise<void> {
+    let result = gradeResult.result;
+    let gradeName = gradeResult.loaded.gradeName;
+    let record: GroupingRecord = {
+        groups: result.groups,
+        parameters: {
+            groupSizes: result.details.groupSizes,
+            runAmount: result.runs ? result.runs.runCount : runAmount,
+            gender: gradeResult.gender,
+            objective: objectiveConfig,
+            rankWeights,
+            balanceConstraints: result.details.balanceConstraints,
+            togetherWith: result.details.togetherWith,
+            excludedUsernames: gradeResult.loaded.attendance.excluded.map((exclusion) => exclusion.username),
+            pins: result.details.pins,
+            groupDefinitions: result.details.groupDefinitions,
+            historySources: gradeResult.entry.history,
+        },
+        seed: result.details.seed,
+        statistics: result.statistics,
+        score: result.score,
+        placements: result.placements,
+        createdAt: new Date().toISOString(),
+        status: 'draft',
+    };
+
+    return source.saveGrouping(gradeName, record).then((runID) => {
+        /* eslint-disable-next-line no-console */
+        console.log('Saved draft run ' + runID + ' for ' + gradeName + '.');
+    });
+}
+
+/**
+ * Outputs, exports, and saves the grouped grades, depending on the
+ * command-line arguments.
+ *
+ * @param {Object[]} gradeResults The grouped grades, in plan order.
+ * @param {Object[]} trips The trips the grades were matched up into.
+ * @return {Promise} A promise that resolves when every grade has been saved,
+ * if they are being saved.
+ */
+let report = function reportResults(gradeResults: GradeResult[], trips: Trip[]): Promise<void> {
+    if (exportFormat && !outFilename) {
+        // Only print the export, so that it can be piped elsewhere.
+        process.stdout.write(getBatchExport(gradeResults, trips, exportFormat));
+    } else {
+        output(gradeResults, trips);
+    }
+
+    if (exportFormat && outFilename) {
+        fs.writeFileSync(outFilename, getBatchExport(gradeResults, trips, exportFormat));
+        /* eslint-disable-next-line no-console */
+        console.log('Wrote ' + exportFormat + ' results to ' + outFilename + '.');
+    }
+
+    if (!shouldSave) {
+        return Promise.resolve();
+    }
+
+    // Runs are saved one at a time, so that they are logged in plan order.
+    return gradeResults.reduce((promise, gradeResult) => promise.then(() => save(gradeResult)), Promise.resolve());
+}
+
+// Every grade is loaded and checked before any are grouped, so that a mistake
+// in the plan is found right away. Grades are then grouped one at a time,
+// since each already uses every worker.
+process.on('SIGINT', onInterrupt);
+
+Promise.resolve().then(() => {
+    let entries = plan.read(planFilename);
+    let planError = plan.getError(entries);
+
+    if (planError) {
+        throw new Error(planError);
+    }
+
+    let tripNames = plan.getTripNames(entries);
+
+    // Reading the plan replaces the paths of files with their contents.
+    return Promise.all(entries.map((entry) => {
+        return input.load(source, entry.grade, {
+            groupSizes: plan.getGroupSizes(entry),
+            groupDefinitions: entry.groups as GroupDefinition[] | undefined,
+            balanceConstraints: entry.balance as BalanceConstraint[] | undefined,
+            pins: entry.pins as PinEntries | undefined,
+            rankWeights,
+            historySources: entry.history,
+            useUsernames,
+        });
+    })).then((loadedGrades) => {
+        let tripError = plan.getTripError(loadedGrades, tripNames);
+
+        if (tripError) {
+            throw new Error(tripError);
+        }
+
+        return entries.reduce((promise, entry, i) => {
+            return promise.then((gradeResults) => group(entry, loadedGrades[i]).then((gradeResult) => gradeResults.concat([gradeResult])));
+        }, Promise.resolve([] as GradeResult[]));
+    }).then((gradeResults) => {
+        process.removeListener('SIGINT', onInterrupt);
+
+        return report(gradeResults, plan.getTrips(gradeResults, tripNames));
+    });
+}).catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+});
@@ -0,0 +1,155 @@
+import * as benchmarks from './benchmarks';
+import * as fs from 'fs';
+import * as input from './input';
+import * as objective from './objective';
+import * as yargs from 'yargs';
+import { BenchmarkCase, BenchmarkResults, MetricChange, Measurement } from './benchmarks';
+
+const DEFAULT_POWER = 2;
+// Each run's seed follows on from the last, so seeds closer together than the
+// number of runs would share most of their runs.
+const DEFAULT_SEEDS = '1000000,2000000,3000000';
+const DEFAULT_TIME_TOLERANCE = 0.25;
+
+let runAmountPower = yargs.argv.power === undefined ? DEFAULT_POWER : Number(yargs.argv.power);
+let seedsArgument = String(yargs.argv.seeds === undefined ? DEFAULT_SEEDS : yargs.argv.seeds);
+let casesFilename = yargs.argv.cases as string | undefined;
+let onlyArgument = yargs.argv.only as string | undefined;
+let workerAmount = yargs.argv.workers === undefined ? 1 : Number(yargs.argv.workers);
+let shouldOptimize = yargs.argv.optimize === true || yargs.argv.optimize === 'true';
+let objectiveArgument = yargs.argv.objective as string | undefined;
+let weightsArgument = yargs.argv.weights as string | undefined;
+let outFilename = yargs.argv.out as string | undefined;
+let baselineFilename = yargs.argv.baseline as string | undefined;
+let timeTolerance = yargs.argv.timeTolerance === undefined ? DEFAULT_TIME_TOLERANCE : Number(yargs.argv.timeTolerance);
+let seeds = seedsArgument.split(',').map(Number);
+
+if (!(runAmountPower >= 0) || runAmountPower % 1 !== 0) {
+    console.error(runAmountPower + ' is not a valid run power.');
+    process.exit(1);
+}
+
+if (seeds.some((seed) => !(seed >= 0) || seed % 1 !== 0)) {
+    console.error(seedsArgument + ' is not a valid list of seeds. Use whole numbers, e.g., 1,2,3.');
+    process.exit(1);
+}
+
+if (!(workerAmount >= 1) || workerAmount % 1 !== 0) {
+    console.error(workerAmount + ' is not a valid number of workers.');
+    process.exit(1);
+}
+
+if (!(timeTolerance >= 0)) {
+    console.error('--timeTolerance must be a ratio of at least 0, e.g., 0.25 for 25% slower.');
+    process.exit(1);
+}
+
+let objectiveConfig = input.getObjectiveConfig(objectiveArgument, weightsArgument);
+let objectiveError = objective.getConfigError(objectiveConfig);
+
+if (objectiveError) {
+    console.error(objectiveError);
+    process.exit(1);
+}
+
+/**
+ * Formats a metric for the console.
+ *
+ * @param {number} value The value of the metric.
+ * @return {string} The value, rounded to a few decimal places.
+ */
+let format = function formatMetric(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Logs a measurement as soon as it is made.
+ *
+ * @param {Object} measurement The measurement.
+ */
+let logMeasurement = function logBenchmarkMeasurement(measurement: Measurement): void {
+    let metrics = Object.keys(measurement.metrics).map((metricName) => metricName + ' ' + format(measurement.metrics[metricName]));
+
+    /* eslint-disable-next-line no-console */
+    console.log([measurement.caseName, 'seed ' + measurement.seed, measurement.seconds.toFixed(2) + 's'].concat(metrics).join('  '));
+}
+
+/**
+ * Logs every regression and improvement compared with the baseline, and a
+ * count of each.
+ *
+ * @param {Object[]} changes The change in every metric of every case.
+ */
+let outputChanges = function outputMetricChanges(changes: MetricChange[]): void {
+    let regressions = changes.filter((change) => change.isRegression);
+    let improvements = changes.filter((change) => change.isImprovement);
+
+    /* eslint-disable no-console */
+    console.log('### COMPARISON: ###');
+
+    for (let change of regressions.concat(improvements)) {
+        console.log((change.isRegression ? 'REGRESSION' : 'IMPROVEMENT') + '  ' + change.caseName + '  ' + change.metricName + '  ' +
+            format(change.baseline) + ' -> ' + format(change.current));
+    }
+
+    console.log(regressions.length + ' regressions, ' + improvements.length + ' improvements.');
+    /* eslint-enable no-console */
+}
+
+Promise.resolve().then(() => {
+    let cases: BenchmarkCase[] = casesFilename ? JSON.parse(fs.readFileSync(casesFilename, 'utf-8')) : benchmarks.DEFAULT_CASES;
+    let casesError = benchmarks.getCasesError(cases);
+
+    if (casesError) {
+        throw new Error(casesError);
+    }
+
+    if (onlyArgument) {
+        let caseNames = String(onlyArgument).split(',');
+        let unknownName = caseNames.find((caseName) => !cases.some((benchmarkCase) => benchmarkCase.name === caseName));
+
+        if (unknownName) {
+            throw new Error('There is no benchmark case named ' + unknownName + '.');
+        }
+
+        cases = cases.filter((benchmarkCase) => caseNames.includes(benchmarkCase.name));
+    }
+
+    // The baseline is read first, so that a missing file is found before
+    // anything is run.
+    let baseline: BenchmarkResults | undefined = baselineFilename ? JSON.parse(fs.readFileSync(baselineFilename, 'utf-8')) : undefined;
+
+    return benchmarks.run(cases, {
+        runAmount: Math.pow(10, runAmountPower),
+        seeds,
+        workerAmount,
+        optimize: shouldOptimize,
+        objective: objectiveConfig,
+    }, logMeasurement).then((results) => {
+        if (outFilename) {
+            fs.writeFileSync(outFilename, JSON.stringify(results, null, 4) + '\n');
+            /* eslint-disable-next-line no-console */
+            console.log('Wrote the results to ' + outFilename + '.');
+        }
+
+        if (!baseline) {
+            return;
+        }
+
+        let comparisonError = benchmarks.getComparisonError(results, baseline);
+
+        if (comparisonError) {
+            throw new Error(comparisonError);
+        }
+
+        let changes = benchmarks.compare(results, baseline, timeTolerance);
+        outputChanges(changes);
+
+        if (changes.some((change) => change.isRegression)) {
+            process.exit(1);
+        }
+    });
+}).catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+});
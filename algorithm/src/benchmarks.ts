@@ -0,0 +1,358 @@
+import * as _ from 'lodash';
+import * as antiPreferences from './anti-preferences';
+import * as cohort from './cohort';
+import * as dataSource from './data-source';
+import * as engine from './engine';
+import { CohortOptions } from './cohort';
+import { GroupingInput, ObjectiveConfig, Statistics } from './types';
+
+/**
+ * A synthetic grade to benchmark, along with how many groups to make. Any
+ * cohort option that isn't given uses its default.
+ */
+export interface BenchmarkCase {
+    name: string;
+    cohort: Partial<CohortOptions>;
+    groupAmount: number;
+    // The gender policy, which is the default policy if it isn't given.
+    genderPolicy?: string;
+}
+
+export interface BenchmarkSettings {
+    runAmount: number;
+    seeds: number[];
+    workerAmount: number;
+    optimize: boolean;
+    objective: ObjectiveConfig;
+}
+
+/**
+ * The statistics and running time of one case with one seed.
+ */
+export interface Measurement {
+    caseName: string;
+    seed: number;
+    seconds: number;
+    metrics: { [metricName: string]: number };
+}
+
+/**
+ * The measurements of a whole benchmark, which can be saved as a baseline.
+ */
+export interface BenchmarkResults {
+    runAmount: number;
+    seeds: number[];
+    optimize: boolean;
+    objective: ObjectiveConfig;
+    measurements: Measurement[];
+}
+
+/**
+ * The change in one metric of a case between a baseline and new results,
+ * averaged over the seeds.
+ */
+export interface MetricChange {
+    caseName: string;
+    metricName: string;
+    baseline: number;
+    current: number;
+    isRegression: boolean;
+    isImprovement: boolean;
+}
+
+/**
+ * A statistic that is recorded for every measurement, and whether higher
+ * values of it are better.
+ */
+interface Metric {
+    higherIsBetter: boolean;
+    getValue(statistics: Statistics): number;
+}
+
+export const METRICS: { [metricName: string]: Metric } = {
+    minFriends: {
+        higherIsBetter: true,
+        getValue: (statistics) => statistics.minFriends,
+    },
+    minFriendsCount: {
+        higherIsBetter: false,
+        getValue: (statistics) => statistics.minFriendsUsernames.length,
+    },
+    avgFavorability: {
+        higherIsBetter: true,
+        getValue: (statistics) => statistics.avgPercentFavorability,
+    },
+    minFavorability: {
+        higherIsBetter: true,
+        getValue: (statistics) => statistics.minPercentFavorability,
+    },
+    chosePercent: {
+        higherIsBetter: true,
+        getValue: (statistics) => statistics.chosePercent,
+    },
+    placedPercent: {
+        higherIsBetter: true,
+        getValue: (statistics) => statistics.placedPercent,
+    },
+    genderSpread: {
+        higherIsBetter: false,
+        getValue: (statistics) => statistics.genderSpread,
+    },
+    groupSizeSpread: {
+        higherIsBetter: false,
+        getValue: (statistics) => statistics.biggestGroupSize - statistics.smallestGroupSize,
+    },
+    softAntiPreferences: {
+        higherIsBetter: false,
+        getValue: (statistics) => statistics.softAntiPreferenceCount,
+    },
+};
+
+// The running time is compared separately, since it varies from run to run.
+export const SECONDS_METRIC = 'seconds';
+
+// Changes in running time smaller than this are treated as noise, however
+// large they are as a ratio.
+const TIME_NOISE_SECONDS = 0.1;
+
+export const DEFAULT_CASES: BenchmarkCase[] = [
+    { name: 'small', cohort: { studentAmount: 48 }, groupAmount: 4 },
+    { name: 'medium', cohort: { studentAmount: 120 }, groupAmount: 10 },
+    { name: 'tight-friend-groups', cohort: { studentAmount: 120, clusterSize: 6, clustering: 0.9 }, groupAmount: 10 },
+    { name: 'loose-friend-groups', cohort: { studentAmount: 120, clustering: 0.2 }, groupAmount: 10 },
+    { name: 'non-responders', cohort: { studentAmount: 120, nonResponderRatio: 0.3 }, groupAmount: 10 },
+    { name: 'uneven-genders', cohort: { studentAmount: 120, genderMix: { male: 0.35, female: 0.65 } }, groupAmount: 10 },
+    { name: 'nonbinary', cohort: { studentAmount: 120, genderMix: { male: 0.45, female: 0.45, nonbinary: 0.1 } }, groupAmount: 10 },
+    {
+        name: 'proportional-genders',
+        cohort: { studentAmount: 120, genderMix: { male: 0.45, female: 0.45, nonbinary: 0.1 } },
+        groupAmount: 10,
+        genderPolicy: 'proportional',
+    },
+    { name: 'constrained', cohort: { studentAmount: 120, antiPreferenceAmount: 40, jointUserAmount: 6 }, groupAmount: 10 },
+    { name: 'large', cohort: { studentAmount: 240, pickAmount: 5 }, groupAmount: 20 },
+];
+
+/**
+ * Returns the cohort options of a case, filling in the defaults.
+ *
+ * @param {Object} benchmarkCase The benchmark case.
+ * @return {Object} The cohort options.
+ */
+export let getCohortOptions = function getCohortOptionsForCase(benchmarkCase: BenchmarkCase): CohortOptions {
+    return { ...cohort.DEFAULT_OPTIONS, ...benchmarkCase.cohort };
+}
+
+/**
+ * Returns the first problem with a list of benchmark cases, if there is one.
+ *
+ * @param {Object[]} cases The benchmark cases to check.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the cases are valid.
+ */
+export let getCasesError = function getBenchmarkCasesError(cases: BenchmarkCase[]): string | undefined {
+    if (!Array.isArray(cases) || cases.length === 0) {
+        return 'There must be at least one benchmark case.';
+    }
+
+    for (let benchmarkCase of cases) {
+        if (!benchmarkCase || !benchmarkCase.name) {
+            return 'Every benchmark case needs a name.';
+        }
+
+        if (cases.filter((other) => other.name === benchmarkCase.name).length > 1) {
+            return 'There is more than one benchmark case named ' + benchmarkCase.name + '.';
+        }
+
+        if (typeof benchmarkCase.groupAmount !== 'number' || benchmarkCase.groupAmount < 1 || benchmarkCase.groupAmount % 1 !== 0) {
+            return 'The group amount of ' + benchmarkCase.name + ' must be a whole number of at least 1.';
+        }
+
+        let optionsError = cohort.getOptionsError(getCohortOptions(benchmarkCase));
+
+        if (optionsError) {
+            return benchmarkCase.name + ': ' + optionsError;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns group sizes that hold every student, split as evenly as possible.
+ *
+ * @param {number} studentAmount The number of students.
+ * @param {number} groupAmount The number of groups.
+ * @return {number[]} The group sizes, biggest first.
+ */
+let getGroupSizes = function getEvenGroupSizes(studentAmount: number, groupAmount: number): number[] {
+    return _.range(groupAmount).map((i) => Math.ceil((studentAmount - i) / groupAmount));
+}
+
+/**
+ * Builds the grouping input of a case's synthetic grade.
+ *
+ * @param {Object} benchmarkCase The benchmark case.
+ * @return {Object} The grouping input.
+ */
+export let getInput = function getInputForCase(benchmarkCase: BenchmarkCase): GroupingInput {
+    let options = getCohortOptions(benchmarkCase);
+    let generated = cohort.generate(options);
+    let users = generated['user-records'];
+
+    return {
+        users,
+        preferences: dataSource.getPreferences(users),
+        antiPreferences: antiPreferences.parse(generated.grades[options.gradeName].antiPreferences || [], users),
+        groupSizes: getGroupSizes(options.studentAmount, benchmarkCase.groupAmount),
+    };
+}
+
+/**
+ * Groups a case's synthetic grade with one seed, and measures the result and
+ * how long it took.
+ *
+ * @param {Object} benchmarkCase The benchmark case.
+ * @param {number} seed The seed of the runs.
+ * @param {Object} settings The benchmark settings.
+ * @return {Promise<Object>} A promise of the measurement.
+ */
+export let measure = function measureCase(benchmarkCase: BenchmarkCase, seed: number, settings: BenchmarkSettings): Promise<Measurement> {
+    let input = getInput(benchmarkCase);
+    let start = process.hrtime();
+
+    return engine.makeGroups(input, {
+        runAmount: settings.runAmount,
+        gender: benchmarkCase.genderPolicy === undefined ? undefined : { policy: benchmarkCase.genderPolicy },
+        seed,
+        workerAmount: settings.workerAmount,
+        optimize: settings.optimize,
+        objective: settings.objective,
+    }).then((result) => {
+        let elapsed = process.hrtime(start);
+
+        return {
+            caseName: benchmarkCase.name,
+            seed,
+            seconds: elapsed[0] + elapsed[1] / 1e9,
+            metrics: _.mapValues(METRICS, (metric) => metric.getValue(result.statistics)),
+        };
+    });
+}
+
+/**
+ * Measures every case with every seed, one at a time, so that the running
+ * times don't affect each other.
+ *
+ * @param {Object[]} cases The benchmark cases.
+ * @param {Object} settings The benchmark settings.
+ * @param {Function} [onMeasurement] Called after each measurement.
+ * @return {Promise<Object>} A promise of the results.
+ */
+export let run = function runBenchmark(
+    cases: BenchmarkCase[],
+    settings: BenchmarkSettings,
+    onMeasurement?: (measurement: Measurement) => void
+): Promise<BenchmarkResults> {
+    let pairs = _.flatMap(cases, (benchmarkCase) => settings.seeds.map((seed): [BenchmarkCase, number] => [benchmarkCase, seed]));
+
+    return pairs.reduce((promise, pair) => {
+        return promise.then((measurements) => measure(pair[0], pair[1], settings).then((measurement) => {
+            if (onMeasurement) {
+                onMeasurement(measurement);
+            }
+
+            return measurements.concat([measurement]);
+        }));
+    }, Promise.resolve([] as Measurement[])).then((measurements) => {
+        return {
+            runAmount: settings.runAmount,
+            seeds: settings.seeds,
+            optimize: settings.optimize,
+            objective: settings.objective,
+            measurements,
+        };
+    });
+}
+
+/**
+ * Returns the first reason that results can't be compared with a baseline,
+ * if there is one. Both must have been measured with the same settings.
+ *
+ * @param {Object} results The new results.
+ * @param {Object} baseline The baseline results.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the results can be compared.
+ */
+export let getComparisonError = function getComparisonErrorForResults(results: BenchmarkResults, baseline: BenchmarkResults): string | undefined {
+    if (results.runAmount !== baseline.runAmount) {
+        return 'The baseline was measured with ' + baseline.runAmount + ' runs, not ' + results.runAmount + '.';
+    }
+
+    if (!_.isEqual(results.seeds, baseline.seeds)) {
+        return 'The baseline was measured with seeds ' + baseline.seeds.join(',') + ', not ' + results.seeds.join(',') + '.';
+    }
+
+    if (results.optimize !== baseline.optimize || !_.isEqual(results.objective, baseline.objective)) {
+        return 'The baseline was measured with a different objective or --optimize setting.';
+    }
+
+    return undefined;
+}
+
+/**
+ * Compares new results with a baseline, case by case. Each metric is averaged
+ * over the seeds, and is a regression if it is worse at all, since the same
+ * seeds always give the same groups. The running time is a regression if it
+ * grows by more than the time tolerance, and by more than a tenth of a second.
+ * Cases that are only in one of the results are skipped.
+ *
+ * @param {Object} results The new results.
+ * @param {Object} baseline The baseline results.
+ * @param {number} timeTolerance How much slower a case may be before it is a
+ * regression, as a ratio, e.g., `0.25` for 25% slower.
+ * @return {Object[]} The change in every metric of every case.
+ */
+export let compare = function compareResults(results: BenchmarkResults, baseline: BenchmarkResults, timeTolerance: number): MetricChange[] {
+    let getAverages = (benchmarkResults: BenchmarkResults): { [caseName: string]: { [metricName: string]: number } } => {
+        return _.mapValues(_.groupBy(benchmarkResults.measurements, 'caseName'), (measurements) => {
+            let averages = _.mapValues(METRICS, (metric, metricName) => _.mean(measurements.map((measurement) => measurement.metrics[metricName])));
+            return { ...averages, [SECONDS_METRIC]: _.mean(measurements.map((measurement) => measurement.seconds)) };
+        });
+    };
+
+    let current = getAverages(results);
+    let previous = getAverages(baseline);
+    let changes: MetricChange[] = [];
+
+    for (let caseName of Object.keys(current).filter((name) => previous[name])) {
+        for (let metricName of Object.keys(METRICS)) {
+            let difference = current[caseName][metricName] - previous[caseName][metricName];
+            let improvement = METRICS[metricName].higherIsBetter ? difference : -difference;
+
+            changes.push({
+                caseName,
+                metricName,
+                baseline: previous[caseName][metricName],
+                current: current[caseName][metricName],
+                // Averages of the same values can differ in their last digits.
+                isRegression: improvement < -1e-9,
+                isImprovement: improvement > 1e-9,
+            });
+        }
+
+        let seconds = current[caseName][SECONDS_METRIC];
+        let baselineSeconds = previous[caseName][SECONDS_METRIC];
+
+        changes.push({
+            caseName,
+            metricName: SECONDS_METRIC,
+            baseline: baselineSeconds,
+            current: seconds,
+            isRegression: seconds > baselineSeconds * (1 + timeTolerance) && seconds - baselineSeconds > TIME_NOISE_SECONDS,
+            isImprovement: seconds < baselineSeconds * (1 - timeTolerance) && baselineSeconds - seconds > TIME_NOISE_SECONDS,
+        });
+    }
+
+    return changes;
+}
@@ -0,0 +1,257 @@
+import * as _ from 'lodash';
+import * as random from './random';
+import { AntiPreference, GradeRecord, UserDetails, Username } from './types';
+
+/**
+ * How a synthetic grade should be made.
+ */
+export interface CohortOptions {
+    gradeName: string;
+    // The number of students, counting both students of each joint user.
+    studentAmount: number;
+    // The share of students of each gender, from 0 to 1, which add up to 1,
+    // e.g., `{ male: 0.45, female: 0.45, nonbinary: 0.1 }`.
+    genderMix: { [gender: string]: number };
+    // The number of friends each student lists.
+    pickAmount: number;
+    // The size of each friend group. Friend groups are made within each
+    // gender, as they usually are at this age.
+    clusterSize: number;
+    // The chance that each pick is from the student's own friend group,
+    // rather than from anyone in the grade, from 0 to 1.
+    clustering: number;
+    // The share of students who don't list any preferences, from 0 to 1.
+    nonResponderRatio: number;
+    antiPreferenceAmount: number;
+    // The share of anti-preferences that are soft, from 0 to 1.
+    softAntiPreferenceRatio: number;
+    // The number of older `--x2` joint users, each standing in for two
+    // students.
+    jointUserAmount: number;
+    seed: number;
+}
+
+/**
+ * A synthetic grade, in the same shape as a JSON data file, so that it can be
+ * saved and passed to `--data`.
+ */
+export interface Cohort {
+    grades: { [gradeName: string]: GradeRecord };
+    'user-records': UserDetails;
+}
+
+// How far the shares of a gender mix may add up to something other than 1,
+// since shares such as thirds can't be written exactly.
+const GENDER_MIX_TOLERANCE = 0.001;
+
+export const DEFAULT_OPTIONS: CohortOptions = {
+    gradeName: 'gradeSynthetic',
+    studentAmount: 120,
+    genderMix: { male: 0.5, female: 0.5 },
+    pickAmount: 4,
+    clusterSize: 5,
+    clustering: 0.7,
+    nonResponderRatio: 0.1,
+    antiPreferenceAmount: 10,
+    softAntiPreferenceRatio: 0.5,
+    jointUserAmount: 0,
+    seed: 1,
+};
+
+/**
+ * Returns the first problem with a set of cohort options, if there is one.
+ *
+ * @param {Object} options The cohort options to check.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the options are valid.
+ */
+export let getOptionsError = function getCohortOptionsError(options: CohortOptions): string | undefined {
+    let isWholeNumber = (value: any): boolean => typeof value === 'number' && value >= 0 && value % 1 === 0;
+    let isRatio = (value: any): boolean => typeof value === 'number' && value >= 0 && value <= 1;
+
+    if (!options.gradeName) {
+        return 'A synthetic grade needs a grade ID.';
+    }
+
+    for (let name of ['studentAmount', 'pickAmount', 'antiPreferenceAmount', 'jointUserAmount', 'seed'] as (keyof CohortOptions)[]) {
+        if (!isWholeNumber(options[name])) {
+            return name + ' must be a whole number.';
+        }
+    }
+
+    for (let name of ['clustering', 'nonResponderRatio', 'softAntiPreferenceRatio'] as (keyof CohortOptions)[]) {
+        if (!isRatio(options[name])) {
+            return name + ' must be a number from 0 to 1.';
+        }
+    }
+
+    let shares = _.values(options.genderMix || {});
+
+    if (shares.length === 0 || !shares.every(isRatio) || Math.abs(_.sum(shares) - 1) > GENDER_MIX_TOLERANCE) {
+        return 'genderMix must give the share of each gender, from 0 to 1, adding up to 1, e.g., male=0.45,female=0.45,nonbinary=0.1.';
+    }
+
+    if (!isWholeNumber(options.clusterSize) || options.clusterSize < 1) {
+        return 'clusterSize must be a whole number of at least 1.';
+    }
+
+    let userAmount = options.studentAmount - options.jointUserAmount;
+
+    if (options.jointUserAmount * 2 > options.studentAmount) {
+        return 'There can be at most ' + Math.floor(options.studentAmount / 2) + ' joint users for ' +
+            options.studentAmount + ' students.';
+    }
+
+    if (options.pickAmount >= userAmount) {
+        return 'Each student can list at most ' + (userAmount - 1) + ' friends, since there are ' + userAmount + ' users.';
+    }
+
+    if (options.antiPreferenceAmount > userAmount * (userAmount - 1) / 2) {
+        return 'There are not enough pairs of students for ' + options.antiPreferenceAmount + ' anti-preferences.';
+    }
+
+    return undefined;
+}
+
+/**
+ * Picks a student's friends. Each pick is from the student's friend group with
+ * a chance of `clustering`, or otherwise from anyone in the grade.
+ *
+ * @param {Object} generator The random number generator.
+ * @param {string} username The student picking friends.
+ * @param {string[]} cluster The student's friend group.
+ * @param {string[]} usernames Every user in the grade.
+ * @param {Object} options The cohort options.
+ * @return {string[]} The student's picks, in order.
+ */
+let getPicks = function getPicksForStudent(
+    generator: random.Random,
+    username: Username,
+    cluster: Username[],
+    usernames: Username[],
+    options: CohortOptions
+): Username[] {
+    let picks: Username[] = [];
+
+    while (picks.length < options.pickAmount) {
+        let isAvailable = (candidate: Username): boolean => candidate !== username && !picks.includes(candidate);
+        let clusterCandidates = cluster.filter(isAvailable);
+        let candidates = clusterCandidates.length > 0 && generator.next() < options.clustering ?
+            clusterCandidates :
+            usernames.filter(isAvailable);
+
+        picks.push(generator.sample(candidates));
+    }
+
+    return picks;
+}
+
+/**
+ * Generates a synthetic grade. The same options always give the same grade,
+ * so that benchmarks are repeatable.
+ *
+ * Students are split into friend groups within each gender, and each student
+ * who responds lists friends mostly from their own friend group. Joint users
+ * are made from pairs of students of the same gender, and anti-preferences
+ * are made between students who didn't pick each other.
+ *
+ * @param {Object} options The cohort options.
+ * @return {Object} The grade and its user records.
+ */
+export let generate = function generateCohort(options: CohortOptions): Cohort {
+    let generator = random.create(options.seed);
+    let userAmount = options.studentAmount - options.jointUserAmount;
+    let genderNames = Object.keys(options.genderMix);
+    let students: { username: Username; name: string; gender: string }[] = [];
+    let studentNumber = 1;
+    let addStudent = (gender: string, isJoint: boolean): void => {
+        let username = isJoint ? 'student' + studentNumber + '-student' + (studentNumber + 1) + '--x2' : 'student' + studentNumber;
+        let name = isJoint ? 'Students ' + studentNumber + ' and ' + (studentNumber + 1) : 'Student ' + studentNumber;
+
+        students.push({ username, name, gender });
+        studentNumber += isJoint ? 2 : 1;
+    };
+
+    // Each gender's students are rounded from the running total of the
+    // shares, so that they always add up to the number of students. Joint
+    // users are split between the genders in proportion to them, and each
+    // counts as two students of its gender. The last gender takes any joint
+    // users that are left over.
+    let share = 0;
+    let studentTotal = 0;
+    let jointTotal = 0;
+
+    for (let i = 0; i < genderNames.length; i++) {
+        let isLast = i === genderNames.length - 1;
+        share += options.genderMix[genderNames[i]];
+
+        let genderStudentAmount = isLast ? options.studentAmount - studentTotal : Math.round(options.studentAmount * share) - studentTotal;
+        let genderJointAmount = isLast ? options.jointUserAmount - jointTotal :
+            Math.min(Math.round(options.jointUserAmount * options.genderMix[genderNames[i]]), Math.floor(genderStudentAmount / 2),
+                options.jointUserAmount - jointTotal);
+
+        for (let j = 0; j < genderStudentAmount - genderJointAmount; j++) {
+            addStudent(genderNames[i], j < genderJointAmount);
+        }
+
+        studentTotal += genderStudentAmount;
+        jointTotal += genderJointAmount;
+    }
+
+    let usernames = students.map((student) => student.username);
+    let clusters: { [username: string]: Username[] } = {};
+
+    for (let gender of genderNames) {
+        let genderUsernames = generator.shuffle(students.filter((student) => student.gender === gender).map((student) => student.username));
+
+        for (let cluster of _.chunk(genderUsernames, options.clusterSize)) {
+            for (let username of cluster) {
+                clusters[username] = cluster;
+            }
+        }
+    }
+
+    let nonResponders = generator.shuffle(usernames).slice(0, Math.round(userAmount * options.nonResponderRatio));
+    let users: UserDetails = {};
+
+    for (let student of students) {
+        users[student.username] = {
+            grade: options.gradeName,
+            gender: student.gender,
+        };
+
+        if (!nonResponders.includes(student.username)) {
+            users[student.username].preferences = getPicks(generator, student.username, clusters[student.username], usernames, options);
+        }
+    }
+
+    let hasPicked = (a: Username, b: Username): boolean => (users[a].preferences || []).includes(b);
+    let antiPreferences: AntiPreference[] = [];
+    let pairs = _.flatMap(usernames, (usernameA, i) => usernames.slice(i + 1).map((usernameB) => [usernameA, usernameB]));
+
+    for (let pair of generator.shuffle(pairs)) {
+        if (antiPreferences.length >= options.antiPreferenceAmount) {
+            break;
+        }
+
+        if (hasPicked(pair[0], pair[1]) || hasPicked(pair[1], pair[0])) {
+            continue;
+        }
+
+        antiPreferences.push({
+            usernameA: pair[0],
+            usernameB: pair[1],
+            severity: generator.next() < options.softAntiPreferenceRatio ? 'soft' : 'hard',
+        });
+    }
+
+    return {
+        grades: {
+            [options.gradeName]: {
+                students: _.fromPairs(students.map((student) => [student.username, student.name])),
+                antiPreferences,
+            },
+        },
+        'user-records': users,
+    };
+}
@@ -0,0 +1,95 @@
+import { AntiPreferenceLookup } from './anti-preferences';
+import { getMultiplier } from './scoring';
+import { Group, Username } from './types';
+
+/**
+ * Checks whether a group has overflowed its maximum number of a certain gender,
+ * and therefore must have a member removed.
+ *
+ * @param {string[]} group The list of usernames to check.
+ * @param {string} gender The gender to check.
+ * @param {number} maxAmount The maximum number of members to allow in the group.
+ * @param {number} maxAmountSame The maximum number of the same gender to allow.
+ * When gender is ignored, this is `Infinity`, so only `maxAmount` is used.
+ * @param {Object} genders The gender of each user.
+ * @return {boolean} Whether or not it has reached the maximum.
+ */
+export let hasMaximum = function checkGenderHasMaximum(
+    group: Group,
+    gender: string,
+    maxAmount: number,
+    maxAmountSame: number,
+    genders: { [username: string]: string }
+): boolean {
+    let currentAmountSame = 0;
+    let currentAmount = 0;
+
+    for (let i = 0; i < group.length; i++) {
+        currentAmount += getMultiplier(group[i]);
+
+        if (genders[group[i]] === gender) {
+            currentAmountSame += getMultiplier(group[i]);
+        }
+    }
+
+    return currentAmountSame > maxAmountSame || currentAmount > maxAmount;
+}
+
+/**
+ * Returns whether or not a user can try to join a group. Note, this does not
+ * mean that the user can join; rather, it means that no-one in the group has
+ * a hard anti-preference with the user. Soft anti-preferences are allowed, and
+ * are counted against the run's score instead.
+ *
+ * @param {Object} antiPreferences The anti-preference lookup.
+ * @param {string[]} group The array of group member usernames.
+ * @param {string} username The username trying to join the group.
+ * @return {boolean} Whether or not the user should attempt joining the group.
+ */
+export let canTryJoiningGroup = function canJoinWithoutConflict(antiPreferences: AntiPreferenceLookup, group: Group, username: Username): boolean {
+    let severities = antiPreferences[username];
+
+    if (!severities) {
+        return true;
+    }
+
+    for (let i = 0; i < group.length; i++) {
+        if (severities[group[i]] === 'hard') {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Returns the unit of users that each linked user must be grouped with. Links
+ * that share a user are merged, so `a__b` and `b__c` make a single unit of
+ * three.
+ *
+ * @param {string[]} togetherWith The array of hyphenated combinations of users
+ * who must be in the same group.
+ * @return {Object} The unit of every linked username, including the user
+ * themselves. Users without links are left out.
+ */
+export let getUnits = function getUnitsForLinks(togetherWith: string[]): { [username: string]: Group } {
+    let units: { [username: string]: Group } = {};
+
+    for (let i = 0; i < togetherWith.length; i++) {
+        let unit: Group = [];
+
+        for (let username of togetherWith[i].split('__')) {
+            for (let member of units[username] || [username]) {
+                if (!unit.includes(member)) {
+                    unit.push(member);
+                }
+            }
+        }
+
+        for (let member of unit) {
+            units[member] = unit;
+        }
+    }
+
+    return units;
+}
@@ -0,0 +1,39 @@
+import * as fileSource from './file-source';
+import * as firestoreSource from './firestore-source';
+import { DataSource, Preferences, UserDetails } from './types';
+
+/**
+ * Returns a data source for the given data file, or for Firestore if there is
+ * no data file.
+ *
+ * @param {string} [dataFilename] The path of a local `.json` or `.csv` file.
+ * @return {Object} The data source.
+ */
+export let create = function createDataSource(dataFilename?: string): DataSource {
+    if (dataFilename) {
+        return fileSource.create(dataFilename);
+    }
+
+    return firestoreSource.create();
+}
+
+/**
+ * Returns the preferences object for a set of users. Users without
+ * preferences are left out.
+ *
+ * @param {Object} users The user details object.
+ * @return {Object} The preferences object.
+ */
+export let getPreferences = function getPreferencesForUsers(users: UserDetails): Preferences {
+    let preferences: Preferences = {};
+
+    for (let username in users) {
+        if (!users[username].preferences) {
+            continue;
+        }
+
+        preferences[username] = users[username].preferences as string[];
+    }
+
+    return preferences;
+}
@@ -1,14 +1,37 @@
-let fs = require('fs');
-let path = require('path');
 import * as admin from 'firebase-admin';
 
-let serviceAccount = require('../config/firebase-service-key.json');
+const PROJECT_ID = 'outie-adfe8';
 
-admin.initializeApp({
-    credential: admin.credential.cert(serviceAccount),
-    databaseURL: "https://outie-adfe8.firebaseio.com",
-});
+let isInitialized = false;
 
+/**
+ * Returns the Firebase admin instance. The service key is only loaded the
+ * first time this is called, so modules that import this file can still run
+ * without production credentials as long as they never need the database.
+ * When `FIRESTORE_EMULATOR_HOST` is set, the local Firestore emulator is used
+ * instead, which needs no service key.
+ *
+ * @return {Object} The initialized Firebase admin instance.
+ */
 export let get = function getDatabase() {
+    if (!isInitialized && process.env.FIRESTORE_EMULATOR_HOST) {
+        admin.initializeApp({
+            projectId: process.env.GCLOUD_PROJECT || PROJECT_ID,
+        });
+
+        isInitialized = true;
+    }
+
+    if (!isInitialized) {
+        let serviceAccount = require('../config/firebase-service-key.json');
+
+        admin.initializeApp({
+            credential: admin.credential.cert(serviceAccount),
+            databaseURL: "https://" + PROJECT_ID + ".firebaseio.com",
+        });
+
+        isInitialized = true;
+    }
+
     return admin;
 }
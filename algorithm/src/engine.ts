@@ -0,0 +1,692 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import * as objective from './objective';
+import * as optimize from './optimize';
+import * as os from 'os';
+import * as path from 'path';
+import * as random from './random';
+import { canTryJoiningGroup, getUnits, hasMaximum } from './constraints';
+import { compareScores } from './objective';
+import { getLookup } from './anti-preferences';
+import { getAllMultiplier, getGUScore, getUGScore } from './scoring';
+import { getRepeatCount } from './history';
+import { getStatistics } from './statistics';
+import { BalanceConstraint, BestRun, GenderConfig, Group, GroupingInput, GroupingOptions, GroupingResult, PairHistory, Placements, Preferences, RunResult, ProgressEvent, ProgressListener, RunSettings, StopReason, StopSignal, Username, WorkerMessage } from './types';
+import { Worker } from 'worker_threads';
+
+const MOVE_ON_COUNT = 100;
+// The reasons a stop signal can hold, stored as their index plus one, since
+// zero means that the runs haven't been stopped.
+const STOP_REASONS: StopReason[] = ['cancelled', 'timeLimit', 'patience'];
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * Creates a group with new members.
+ *
+ * @param {string[]} group The old list of usernames.
+ * @param {string[]} members The new usernames to add.
+ * @return {string[]} The new list of usernames.
+ */
+let groupWithNew = function copyGroupWithNewMembers(group: Group, members: Username[]): Group {
+    return group.concat(members);
+}
+
+
+/**
+ * Returns a user's ranking of group preferences. In other words, returns the
+ * order of groups that contain the most of the user's friends (most favorite)
+ * to the least (least favorite). Users who must be grouped together choose as
+ * one, by adding up their scores. Ties go to the group with the fewest of the
+ * unit's past groupmates, if there is a history.
+ *
+ * @param {Object} preferences The preferences object, containing user choices.
+ * @param {string[][]} groups The available groups to join. Each group is a list of member usernames.
+ * @param {string[]} newMembers The unit of members choosing between group preferences.
+ * @param {Object} rng The random number generator used to break ties.
+ * @param {number[]} [rankWeights] The weight of each preference position.
+ * @param {Object} [history] Who was grouped together in past groupings.
+ * @return {number[]} The ranking of group indices, from favorite to least.
+ */
+let getUGRanking = function findRankingOfGroupsByPreferences(
+    preferences: Preferences,
+    groups: Group[],
+    newMembers: Username[],
+    rng: random.Random,
+    rankWeights?: number[],
+    history?: PairHistory
+): number[] {
+    let scores = [];
+
+    for (let i = 0; i < groups.length; i++) {
+        let score = _.sum(newMembers.map((newMember) => getUGScore(preferences, groups[i], newMember, rankWeights)));
+        let repeats = history ? _.sum(newMembers.map((newMember) => getRepeatCount(history, groups[i], newMember))) : 0;
+        scores.push({ groupID: i, score, repeats });
+    }
+
+    return scores.sort((a, b): number => {
+        if (a.score === b.score) {
+            // If they have the same exact score, go for the one with fewer
+            // past groupmates, so that students meet new people.
+            if (a.repeats !== b.repeats) {
+                return a.repeats - b.repeats;
+            }
+
+            // If they have the same exact score, go for the one with more members.
+            // If they have the same number of members, pick randomly.
+            let lengthDifference = groups[b.groupID].length - groups[a.groupID].length;
+
+            if (lengthDifference === 0) {
+                return rng.sample([-1, 1]);
+            }
+
+            return lengthDifference;
+        }
+
+        // Otherwise, bigger score wins.
+        return b.score - a.score;
+    }).map((value) => {
+        // Now that they're sorted, return just the group ID.
+        return value.groupID;
+    });
+}
+
+/**
+ * Returns a group's ranking of acceptable users. In other words, returns the
+ * order of users with the most people who listed them as friends in the group
+ * (most accepted) to the least (least accepted).
+ *
+ * @param {Object} preferences The preferences object, containing user choices.
+ * @param {string[]} group The list of potential group member usernames.
+ * @return {string[]} The ranking of usernames, from most acceptable to least.
+ */
+let getGURanking = function findRankingOfGroupsByPreferences(preferences: Preferences, group: Group, rankWeights?: number[]): Username[] {
+    let scores = [];
+
+    for (let i = 0; i < group.length; i++) {
+        let score = getGUScore(preferences, group, group[i], rankWeights);
+        scores.push({ username: group[i], score, index: i });
+    }
+
+    return scores.sort((a, b) => {
+        if (a.score === b.score) {
+            // If they have the same exact score, go for the older member.
+            return a.index - b.index;
+        }
+
+        // Otherwise, bigger score wins.
+        return b.score - a.score;
+    }).map((value) => {
+        // Now that they're sorted, return just the member username.
+        return value.username;
+    });
+}
+
+/**
+ * Runs the main algorithm process once. Users linked by `togetherWith` are
+ * placed, and removed, as a single unit. Pinned users are placed in their
+ * groups before anyone else, and are never removed.
+ *
+ * @param {Object} input The grouping input, containing users, preferences,
+ * anti-preferences, and group sizes.
+ * @param {Object} genderConfig The gender policy.
+ * @param {number} seed The seed for every random choice made during the run.
+ * @return {Object} An object with keys `groups`, `preferences`, `users`, and
+ * `details`, where `groups` is the array of member arrays for each group.
+ */
+let run = function runAlgorithmOnce(input: GroupingInput, genderConfig: GenderConfig, seed: number): RunResult {
+    // `preferences` may be incomplete for users who haven't filled out the form,
+    // but `users` will always be complete.
+    let preferences = input.preferences;
+    let users = input.users;
+    let antiPreferences = getLookup(input.antiPreferences);
+    let groupSizes = input.groupSizes;
+    let balanceConstraints = input.balanceConstraints || [];
+    let definitions = input.groupDefinitions;
+    let units = getUnits(input.togetherWith || []);
+    let pins = input.pins || {};
+    let limits = gender.getLimits(users, groupSizes, genderConfig, definitions);
+
+    // Returns the balance constraints of a group, including its own.
+    let getConstraints = (groupID: number): BalanceConstraint[] => {
+        return groupDefinitions.getConstraints(balanceConstraints, groupID, definitions);
+    };
+
+    // Returns whether every member of a unit meets a group's eligibility
+    // rules.
+    let isEligible = (unit: Group, groupID: number): boolean => {
+        return unit.every((member) => groupDefinitions.isEligible(users, member, groupID, definitions));
+    };
+
+    // Returns the users who must be grouped with a user, including themselves.
+    let getUnit = (username: Username): Group => units[username] || [username];
+
+    // Returns whether a user, or anyone in their unit, is pinned to a group.
+    let isPinned = (username: Username): boolean => getUnit(username).some((member) => pins[member] !== undefined);
+
+    // For now, just focus on listed preferences, since users who filled out the ranking
+    // should get priority over those who didn't
+    let usernames = Object.keys(preferences);
+    let allUsernames = Object.keys(users);
+    let rng = random.create(seed);
+    let userOrder = rng.shuffle(usernames);
+
+    // Groups start out empty.
+    let groups: any[] = [];
+
+    for (let i = 0; i < groupSizes.length; i++) {
+        groups.push([]);
+    }
+
+    let placedUsers: Username[] = [];
+
+    // Seed the groups with pinned users, along with the rest of their units.
+    // Since they're already placed, they are skipped by both passes below.
+    for (let username in pins) {
+        if (!placedUsers.includes(username)) {
+            let unit = getUnit(username);
+            groups[pins[username]].push(...unit);
+            placedUsers.push(...unit);
+        }
+    }
+
+    let hasUpdatedThisLoop = false;
+    let currentLoopAmounts = 0;
+
+    // Loop through given users until the best matches are made.
+    for (let i = 0; i < userOrder.length; i++) {
+        let username = userOrder[i];
+        let unit = getUnit(username);
+        let unitGenders = _.uniq(unit.map((member) => limits.genders[member]));
+
+        if (placedUsers.includes(username)) {
+            continue;
+        }
+
+        let ugRanked = getUGRanking(preferences, groups, unit, rng, input.rankWeights, input.history);
+
+        ugRankLoop: for (let j = 0; j < ugRanked.length; j++) {
+            let groupID = ugRanked[j];
+
+            // If it can't join because of an anti-preference or the group's
+            // eligibility rules, continue with the next attempt.
+            if (!unit.every((member) => canTryJoiningGroup(antiPreferences, groups[groupID], member)) || !isEligible(unit, groupID)) {
+                continue ugRankLoop;
+            }
+
+            // Likewise, if joining would put the group over the maximum of a
+            // balance constraint, try the next group instead.
+            if (balance.exceedsMaximum(groupWithNew(groups[groupID], unit), getConstraints(groupID), users)) {
+                continue ugRankLoop;
+            }
+
+            let guRanked = getGURanking(preferences, groupWithNew(groups[groupID], unit), input.rankWeights);
+            groups[groupID] = guRanked;
+            placedUsers.push(...unit);
+
+            let isOverMaximum = (unitGender: string): boolean => {
+                let genderCapacity = limits.getCapacity(groupID, unitGender);
+                return hasMaximum(guRanked, unitGender, groupSizes[groupID], genderCapacity, limits.genders);
+            };
+
+            // If we're at the maximum, we have to remove the least-liked user
+            // of the same gender as the user we just added. This is potentially
+            // the same user as the new one. Removed users take the rest of
+            // their unit with them, and pinned users are never removed. With
+            // single-gender groups, a group that the unit would make mixed is
+            // over its maximum too.
+            if (unitGenders.some(isOverMaximum) || limits.isMixed(guRanked, groupID)) {
+                let currentRemovedUsers = 0;
+
+                for (let removedUser of guRanked.slice().reverse()) {
+                    if (guRanked.includes(removedUser) && unitGenders.includes(limits.genders[removedUser]) && !isPinned(removedUser)) {
+                        let removedUnit = getUnit(removedUser);
+                        _.pullAll(guRanked, removedUnit);
+                        _.pullAll(placedUsers, removedUnit);
+                        currentRemovedUsers += getAllMultiplier(removedUnit);
+
+                        // If enough users have been removed to cancel-out
+                        // the new ones, continue with the next step.
+                        // Otherwise, keep removing another user.
+                        if (currentRemovedUsers >= getAllMultiplier(unit)) {
+                            if (removedUnit.includes(username)) {
+                                continue ugRankLoop;
+                            }
+
+                            hasUpdatedThisLoop = true;
+                            break ugRankLoop;
+                        }
+                    }
+                }
+            }
+
+            hasUpdatedThisLoop = true;
+            break ugRankLoop;
+        }
+
+        // If there was a change in the last loop, it's possible there will
+        // be another in this one. If there was no change, then there can't
+        // be one this time either.
+        if (i === userOrder.length - 1 && userOrder.some((user) => !placedUsers.includes(user)) && hasUpdatedThisLoop && currentLoopAmounts < MOVE_ON_COUNT) {
+            hasUpdatedThisLoop = false;
+            i = -1;
+            currentLoopAmounts++;
+        }
+    }
+
+    // Remember who was placed by preference, so that each user's explanation
+    // can say which pass placed them.
+    let preferencePassUsers = placedUsers.slice();
+
+    // Loop through all unplaced users, including both those who didn't list
+    // preferences as well as the few who couldn't even be fit within
+    // the initial maximum limits.
+    allUsernamesLoop: for (let i = 0; i < allUsernames.length; i++) {
+        if (placedUsers.includes(allUsernames[i])) {
+            continue;
+        }
+
+        let unit = getUnit(allUsernames[i]);
+        let unitGenders = _.uniq(unit.map((member) => limits.genders[member]));
+
+        // Sort the groups by the number of remaining spots, so that less-full
+        //  groups are tried first before more-full ones. This prevents the same groups.
+        // from filling at the end and getting disproportionately larger.
+        // If there are ties, break them by the number of friends in the group.
+        // Groups still short of a balance minimum that the user would help
+        // meet come before all others.
+        let sizeSortedGroups = _.sortBy(_.zip(groups, groupSizes), [
+            (groupZip) => {
+                let group = groupZip[0] as Group;
+                return -balance.getUnmetMinimums(group, allUsernames[i], getConstraints(groups.indexOf(group)), users);
+            },
+            (groupZip) => {
+                return getAllMultiplier(groupZip[0]) - (groupZip[1] as number);
+            },
+            (group) => {
+                if (!preferences[allUsernames[i]]) {
+                    return 0;
+                }
+
+                return getUGScore(preferences, group, allUsernames[i], input.rankWeights);
+            },
+        ]).map(groupZip => groupZip[0]) as Group[];
+
+        // Loop through all groups 3 times. The first time, check if they have
+        // space, ignoring preference. Next, check if they have space ignoring
+        // preference and gender. Finally, check ignoring all constraints.
+        // Balance maximums are kept for the first two times.
+        // Eligibility rules and single-gender groups are never ignored, so
+        // users who fit none of the groups are left unplaced.
+        for (let j = 0; j < sizeSortedGroups.length * 3; j++) {
+            let group = sizeSortedGroups[j % sizeSortedGroups.length];
+            let groupID = groups.indexOf(group);
+            let effectiveGroupSize = j < sizeSortedGroups.length * 2 ? groupSizes[groupID] : Infinity;
+
+            if (!unit.every((member) => canTryJoiningGroup(antiPreferences, group, member)) || !isEligible(unit, groupID)) {
+                continue;
+            }
+
+            if (j < sizeSortedGroups.length * 2 && balance.exceedsMaximum(groupWithNew(group, unit), getConstraints(groupID), users)) {
+                continue;
+            }
+
+            if (unitGenders.some((unitGender) => {
+                let effectiveGenderSize = j < sizeSortedGroups.length ? limits.getCapacity(groupID, unitGender) : Infinity;
+                return hasMaximum(groupWithNew(group, unit), unitGender, effectiveGroupSize, effectiveGenderSize, limits.genders);
+            })) {
+                continue;
+            }
+
+            if (limits.isMixed(groupWithNew(group, unit), groupID)) {
+                continue;
+            }
+
+            // Theoretically, adding regardless of preference here isn't ideal.
+            // However, since the only users who aren't placed are those who
+            // have the lowest GU scores anyway, it makes sense that they would have
+            // less choice in the decision-making. Also, randomness makes
+            // this more "fair" as well.
+            group.push(...unit);
+            placedUsers.push(...unit);
+            continue allUsernamesLoop;
+        }
+    }
+
+    let placements: Placements = {};
+
+    for (let username of allUsernames) {
+        placements[username] = isPinned(username) ? 'pinned' : preferencePassUsers.includes(username) ? 'preference' : 'fallback';
+    }
+
+    return {
+        groups,
+        preferences,
+        users,
+        placements,
+        details: {
+            groupSizes: groupSizes,
+            groupAmount: groupSizes.length,
+            seed,
+            rankWeights: input.rankWeights,
+            balanceConstraints: input.balanceConstraints,
+            togetherWith: input.togetherWith,
+            antiPreferences: input.antiPreferences,
+            pins: input.pins,
+            groupDefinitions: input.groupDefinitions,
+            history: input.history,
+        },
+    };
+}
+
+/**
+ * Returns whether one run is better than another. Runs with equal scores are
+ * broken by the lower run ID, so the best run doesn't depend on how runs were
+ * split between workers.
+ *
+ * @param {Object} a The first run.
+ * @param {Object} b The second run.
+ * @return {boolean} Whether `a` is better than `b`.
+ */
+let isBetter = function isBetterRun(a: Pick<BestRun, 'score' | 'runID'>, b: Pick<BestRun, 'score' | 'runID'>): boolean {
+    let comparison = compareScores(a.score.score, b.score.score);
+
+    if (comparison !== 0) {
+        return comparison < 0;
+    }
+
+    return a.runID < b.runID;
+}
+
+/**
+ * Returns a new stop signal for `makeGroups`.
+ *
+ * @return {Object} The stop signal, which isn't yet stopped.
+ */
+export let createStopSignal = function createNewStopSignal(): StopSignal {
+    return { flag: new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT)) };
+}
+
+/**
+ * Stops every set of runs that uses a stop signal. Runs that have already
+ * started are finished first. Only the first reason is kept.
+ *
+ * @param {Object} stopSignal The stop signal.
+ * @param {string} [reason] Why the runs are being stopped.
+ */
+export let stop = function stopRuns(stopSignal: StopSignal, reason: StopReason = 'cancelled'): void {
+    Atomics.compareExchange(stopSignal.flag, 0, 0, STOP_REASONS.indexOf(reason) + 1);
+}
+
+/**
+ * Returns why a stop signal was stopped.
+ *
+ * @param {Object} [stopSignal] The stop signal, if there is one.
+ * @return {string|undefined} The reason, or `undefined` if it hasn't been
+ * stopped.
+ */
+export let getStopReason = function getStopSignalReason(stopSignal?: StopSignal): StopReason | undefined {
+    return stopSignal ? STOP_REASONS[Atomics.load(stopSignal.flag, 0) - 1] : undefined;
+}
+
+/**
+ * Returns whether a stop signal has been stopped.
+ *
+ * @param {Object} [stopSignal] The stop signal, if there is one.
+ * @return {boolean} Whether or not to stop.
+ */
+export let isStopped = function isStopSignalStopped(stopSignal?: StopSignal): boolean {
+    return getStopReason(stopSignal) !== undefined;
+}
+
+/**
+ * Runs the algorithm for a range of run IDs, keeping only the best run found
+ * so far rather than every result. This is what each worker thread runs.
+ *
+ * @param {Object} input The grouping input.
+ * @param {Object} settings The settings shared by every run.
+ * @param {number} start The first run ID, inclusive.
+ * @param {number} end The last run ID, exclusive.
+ * @param {Function} [onProgress] Called with the number of newly completed
+ * runs every so often, and whenever the best run in the range improves.
+ * @return {Object|undefined} The best run, or `undefined` if the range was
+ * empty or was stopped before any runs.
+ */
+export let runRange = function runRangeAndKeepBest(
+    input: GroupingInput,
+    settings: RunSettings,
+    start: number,
+    end: number,
+    onProgress?: ProgressListener
+): BestRun | undefined {
+    let best: BestRun | undefined;
+    let unreportedCount = 0;
+    let unimprovedCount = 0;
+
+    for (let runID = start; runID < end; runID++) {
+        if (settings.stopSignal && settings.deadline !== undefined && Date.now() >= settings.deadline) {
+            stop(settings.stopSignal, 'timeLimit');
+        }
+
+        if (isStopped(settings.stopSignal)) {
+            break;
+        }
+
+        let result = run(input, settings.gender, random.getRunSeed(settings.seed, runID));
+        let current = { result, score: objective.getScore(result, settings.objective), runID };
+
+        unreportedCount++;
+        unimprovedCount++;
+
+        if (!best || isBetter(current, best)) {
+            best = current;
+            unimprovedCount = 0;
+
+            // The runs so far are reported first, so that the runs since the
+            // last improvement can be counted exactly.
+            if (onProgress) {
+                onProgress({ type: 'runs', runCount: unreportedCount });
+                onProgress({ type: 'improved', runID, score: current.score });
+                unreportedCount = 0;
+            }
+        }
+
+        // Patience is checked after every run, rather than as progress is
+        // reported, so that it stops at exactly the same run every time.
+        if (settings.stopSignal && settings.patience !== undefined && unimprovedCount >= settings.patience) {
+            stop(settings.stopSignal, 'patience');
+        }
+
+        if (onProgress && unreportedCount >= PROGRESS_INTERVAL) {
+            onProgress({ type: 'runs', runCount: unreportedCount });
+            unreportedCount = 0;
+        }
+    }
+
+    if (onProgress && unreportedCount > 0) {
+        onProgress({ type: 'runs', runCount: unreportedCount });
+    }
+
+    return best;
+}
+
+/**
+ * Runs a range of run IDs on a new worker thread.
+ *
+ * @param {Object} input The grouping input.
+ * @param {Object} settings The settings shared by every run.
+ * @param {number} start The first run ID, inclusive.
+ * @param {number} end The last run ID, exclusive.
+ * @param {Function} [onProgress] Called with the worker's progress events.
+ * @return {Promise<Object>} A promise of the best run in the range.
+ */
+let runRangeOnWorker = function runRangeOnWorkerThread(
+    input: GroupingInput,
+    settings: RunSettings,
+    start: number,
+    end: number,
+    onProgress?: ProgressListener
+): Promise<BestRun | undefined> {
+    return new Promise((resolve, reject) => {
+        let best: BestRun | undefined;
+        let worker = new Worker(path.join(__dirname, 'worker.js'), {
+            workerData: { input, settings, start, end },
+        });
+
+        worker.on('message', (message: WorkerMessage) => {
+            if (message.type === 'progress' && onProgress) {
+                onProgress(message.event);
+            }
+
+            if (message.type === 'best') {
+                best = message.best;
+            }
+        });
+
+        worker.on('error', reject);
+
+        worker.on('exit', (code: number) => {
+            if (code !== 0) {
+                reject(new Error('A worker stopped with exit code ' + code + '.'));
+                return;
+            }
+
+            resolve(best);
+        });
+    });
+}
+
+/**
+ * Runs the main algorithm process multiple times, and finds the best
+ * combination of groups. This does not read from the database or write any
+ * output, so it can be used by any caller that already has a grade's data.
+ * Runs are split across a pool of worker threads, one per CPU core by default.
+ * No more runs are started once the `stopSignal` option is stopped, the
+ * `timeLimit` is reached, or the best run hasn't improved for `patience` runs,
+ * and the best run so far is used. With a single worker, patience is counted
+ * after every run, so it stops at exactly that many runs since the best run.
+ * With several, it is counted as each worker reports its progress, so more
+ * runs may be made, and it isn't repeatable. If the `optimize`
+ * option is set, the best run is then improved with a local search.
+ *
+ * @param {Object} input The grouping input, containing users, preferences,
+ * anti-preferences, and group sizes.
+ * @param {Object} options The grouping options, such as the number of runs.
+ * @return {Promise<Object>} A promise of the best run result, along with its
+ * statistics.
+ */
+export let makeGroups = function makeBestGroups(input: GroupingInput, options: GroupingOptions): Promise<GroupingResult> {
+    let stopSignal = options.stopSignal || createStopSignal();
+    let workerAmount = options.workerAmount === undefined ? os.cpus().length : options.workerAmount;
+    workerAmount = Math.max(1, Math.min(workerAmount, options.runAmount));
+
+    let settings: RunSettings = {
+        gender: options.gender || { policy: gender.DEFAULT_POLICY },
+        seed: options.seed === undefined ? random.getSeed() : options.seed,
+        objective: options.objective || { strategy: objective.DEFAULT_STRATEGY },
+        stopSignal,
+        deadline: options.timeLimit === undefined ? undefined : Date.now() + options.timeLimit,
+        patience: workerAmount === 1 ? options.patience : undefined,
+    };
+
+    // Each worker only knows its own best run, so only runs better than every
+    // worker's best are passed on as improvements.
+    let runCount = 0;
+    let unimprovedCount = 0;
+    let bestSoFar: Pick<BestRun, 'score' | 'runID'> | undefined;
+    let onProgress = (event: ProgressEvent): void => {
+        if (event.type === 'improved') {
+            if (bestSoFar && !isBetter(event, bestSoFar)) {
+                return;
+            }
+
+            bestSoFar = event;
+            unimprovedCount = 0;
+        }
+
+        if (event.type === 'runs') {
+            runCount += event.runCount;
+            unimprovedCount += event.runCount;
+
+            if (options.patience !== undefined && unimprovedCount >= options.patience) {
+                stop(stopSignal, 'patience');
+            }
+        }
+
+        if (options.onProgress) {
+            options.onProgress(event);
+        }
+    };
+
+    let bestRunsPromise: Promise<(BestRun | undefined)[]>;
+
+    if (workerAmount === 1 && !options.isInBackground) {
+        // There's no point in starting a thread just to wait on it.
+        bestRunsPromise = new Promise((resolve) => {
+            resolve([runRange(input, settings, 0, options.runAmount, onProgress)]);
+        });
+    } else {
+        let workerPromises = [];
+
+        for (let i = 0; i < workerAmount; i++) {
+            let start = Math.floor(options.runAmount * i / workerAmount);
+            let end = Math.floor(options.runAmount * (i + 1) / workerAmount);
+
+            workerPromises.push(runRangeOnWorker(input, settings, start, end, onProgress));
+        }
+
+        bestRunsPromise = Promise.all(workerPromises);
+    }
+
+    return bestRunsPromise.then((bestRuns) => {
+        let best: BestRun | undefined;
+        // Runs that were stopped after every run was made weren't stopped
+        // early.
+        let stopReason = runCount < options.runAmount ? getStopReason(stopSignal) : undefined;
+
+        if (options.onProgress) {
+            options.onProgress({ type: 'finished', runCount, stopReason });
+        }
+
+        for (let bestRun of bestRuns) {
+            if (bestRun && (!best || isBetter(bestRun, best))) {
+                best = bestRun;
+            }
+        }
+
+        if (!best) {
+            throw new Error(stopReason ? 'The runs were stopped before any finished.' :
+                'At least one run is needed to make groups.');
+        }
+
+        let bestResult = best.result;
+        let bestScore = best.score;
+        let optimization: GroupingResult['optimization'];
+
+        if (options.optimize) {
+            let improved = optimize.improve(bestResult, input.antiPreferences, settings);
+
+            optimization = {
+                before: getStatistics(bestResult),
+                moveCount: improved.moveCount,
+                swapCount: improved.swapCount,
+            };
+
+            bestResult = improved.result;
+            bestScore = improved.score;
+        }
+
+        return {
+            groups: bestResult.groups,
+            preferences: bestResult.preferences,
+            users: bestResult.users,
+            placements: bestResult.placements,
+            details: bestResult.details,
+            statistics: getStatistics(bestResult),
+            score: bestScore,
+            optimization,
+            runs: { runCount, stopReason },
+        };
+    });
+}
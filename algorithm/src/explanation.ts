@@ -0,0 +1,234 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import { getLookup } from './anti-preferences';
+import { GenderLimits } from './gender';
+import { getUnits } from './constraints';
+import { getAllMultiplier, getPreferenceWeight, getUGScore } from './scoring';
+import { GenderConfig, Group, PlacementPass, Placements, RunResult, StudentNames, Username } from './types';
+
+export const PASS_DESCRIPTIONS: { [pass in PlacementPass]: string } = {
+    pinned: 'Pinned to their group',
+    preference: 'Placed by preference',
+    fallback: 'Placed by the fallback pass',
+    optimization: 'Moved by the local search',
+    regroup: 'Placed when regrouping',
+    previous: 'Kept from the previous run',
+    solver: 'Placed by the exact solver',
+};
+
+/**
+ * One of a student's picks, and the group they ended up in.
+ */
+export interface PickExplanation {
+    username: Username;
+    name: string;
+    rank: number;
+    // The name of the pick's group, or `undefined` if they aren't in one,
+    // e.g., because they aren't going.
+    groupName?: string;
+    isTogether: boolean;
+}
+
+/**
+ * A group that a student has more friends in than their own, along with
+ * everything that keeps them out of it.
+ */
+export interface BlockedGroup {
+    groupName: string;
+    friendCount: number;
+    reasons: string[];
+}
+
+export interface StudentExplanation {
+    username: Username;
+    name: string;
+    groupName: string;
+    // How the student came to be in their group, if it is known.
+    pass?: PlacementPass;
+    friendCount: number;
+    picks: PickExplanation[];
+    // The names of the members of the group who picked the student.
+    pickedBy: string[];
+    // The names of the students who must be in the same group as the student.
+    togetherWith: string[];
+    blockedGroups: BlockedGroup[];
+}
+
+/**
+ * Returns the placements of users after some of them have been moved. Users
+ * whose group changed are given the new pass, unless they are pinned.
+ *
+ * @param {Object} placements The placements before the move.
+ * @param {string[][]} previousGroups The groups before the move.
+ * @param {string[][]} groups The groups after the move.
+ * @param {string} pass The pass that moved the users.
+ * @return {Object} The new placements.
+ */
+export let getUpdatedPlacements = function getPlacementsAfterMove(
+    placements: Placements,
+    previousGroups: Group[],
+    groups: Group[],
+    pass: PlacementPass
+): Placements {
+    return _.mapValues(placements, (placement, username) => {
+        let isMoved = _.findIndex(previousGroups, (group) => group.includes(username)) !==
+            _.findIndex(groups, (group) => group.includes(username));
+
+        return isMoved && placement !== 'pinned' ? pass : placement;
+    });
+}
+
+/**
+ * Returns everything that keeps a unit out of a group it would prefer:
+ * pins, hard anti-preferences, eligibility rules, and the group's size,
+ * gender, and balance limits. Soft anti-preferences are included as well,
+ * since they are avoided where possible.
+ *
+ * @param {Object} result The run result.
+ * @param {string[]} unit The users who must be placed together.
+ * @param {number} index The index of the preferred group.
+ * @param {Object} limits The gender limits of the groups.
+ * @param {Object} studentNames The names of the students.
+ * @return {string[]} A description of each reason, or a note that nothing
+ * keeps the unit out.
+ */
+let getReasons = function getReasonsForBlockedGroup(
+    result: RunResult,
+    unit: Group,
+    index: number,
+    limits: GenderLimits,
+    studentNames: StudentNames
+): string[] {
+    let details = result.details;
+    let definitions = details.groupDefinitions;
+    let users = result.users;
+    let group = result.groups[index];
+    let newGroup = group.concat(unit);
+    let lookup = getLookup(details.antiPreferences || []);
+    let pins = details.pins || {};
+    let getName = (username: Username): string => studentNames[username] || username;
+    let reasons: string[] = [];
+
+    for (let member of unit) {
+        if (pins[member] !== undefined) {
+            reasons.push(getName(member) + ' is pinned to ' + groupDefinitions.getName(pins[member], definitions));
+        }
+
+        for (let other of group) {
+            let severity = (lookup[member] || {})[other];
+
+            if (severity) {
+                reasons.push(severity === 'hard' ? 'Hard anti-preference between ' + getName(member) + ' and ' + getName(other) :
+                    'Soft anti-preference between ' + getName(member) + ' and ' + getName(other) + ', which is avoided where possible');
+            }
+        }
+
+        if (!groupDefinitions.isEligible(users, member, index, definitions)) {
+            reasons.push(getName(member) + ' does not meet the group\'s eligibility rules');
+        }
+    }
+
+    let size = details.groupSizes[index];
+
+    if (getAllMultiplier(newGroup) > size) {
+        reasons.push('The group is full (' + getAllMultiplier(group) + ' of ' + size + ')');
+    }
+
+    for (let unitGender of _.uniq(unit.map((member) => limits.genders[member]))) {
+        let genderCapacity = limits.getCapacity(index, unitGender);
+        let genderAmount = gender.getDistribution(group, limits.genders)[unitGender] || 0;
+
+        if ((gender.getDistribution(newGroup, limits.genders)[unitGender] || 0) > genderCapacity) {
+            reasons.push('The group is at its ' + unitGender + ' capacity (' + genderAmount + ' of ' + genderCapacity + ')');
+        }
+    }
+
+    if (limits.isMixed(newGroup, index) && !limits.isMixed(group, index)) {
+        reasons.push('The group is for a different gender, and groups have only one gender');
+    }
+
+    for (let constraint of groupDefinitions.getConstraints(details.balanceConstraints || [], index, definitions)) {
+        if (balance.exceedsMaximum(newGroup, [constraint], users) && !balance.exceedsMaximum(group, [constraint], users)) {
+            reasons.push('The group would go over its maximum of ' + constraint.max + ' for ' + constraint.attribute +
+                (constraint.value === undefined ? '' : ' ' + constraint.value));
+        }
+    }
+
+    if (reasons.length === 0) {
+        reasons.push('No limit keeps them out; the grouping scored better with them elsewhere');
+    }
+
+    return reasons;
+}
+
+/**
+ * Explains the group of every student in a result: which of their picks are
+ * in their group, who in the group picked them, how they were placed, and what
+ * keeps them out of each group that has more of their friends. The groups that
+ * are explained are checked against the finished groups, so a reason such as
+ * a full group describes the groups as they are now.
+ *
+ * @param {Object} result The run result to explain.
+ * @param {Object} genderConfig The gender policy the groups were made with.
+ * @param {Object} studentNames An object of usernames and their corresponding
+ * student names. Usernames without a name are used as their own name.
+ * @return {Object[]} An explanation for each student, in group order.
+ */
+export let explain = function explainResult(result: RunResult, genderConfig: GenderConfig, studentNames: StudentNames): StudentExplanation[] {
+    let preferences = result.preferences;
+    let rankWeights = result.details.rankWeights;
+    let definitions = result.details.groupDefinitions;
+    let units = getUnits(result.details.togetherWith || []);
+    let limits = gender.getLimits(result.users, result.details.groupSizes, genderConfig, definitions);
+    let getName = (username: Username): string => studentNames[username] || username;
+    let getGroupIndex = (username: Username): number => _.findIndex(result.groups, (group) => group.includes(username));
+    let explanations: StudentExplanation[] = [];
+
+    result.groups.forEach((group, index) => {
+        for (let username of group) {
+            let unit = units[username] || [username];
+            let picks = preferences[username] || [];
+            let ownScore = getUGScore(preferences, group, username, rankWeights);
+
+            let blockedGroups: BlockedGroup[] = [];
+
+            result.groups.forEach((otherGroup, otherIndex) => {
+                if (otherIndex === index || getUGScore(preferences, otherGroup, username, rankWeights) <= ownScore) {
+                    return;
+                }
+
+                blockedGroups.push({
+                    groupName: groupDefinitions.getName(otherIndex, definitions),
+                    friendCount: _.sum(otherGroup.map((member) => getPreferenceWeight(preferences, username, member, rankWeights))),
+                    reasons: getReasons(result, unit, otherIndex, limits, studentNames),
+                });
+            });
+
+            explanations.push({
+                username,
+                name: getName(username),
+                groupName: groupDefinitions.getName(index, definitions),
+                pass: result.placements && result.placements[username],
+                friendCount: _.sum(group.map((member) => getPreferenceWeight(preferences, username, member, rankWeights))),
+                picks: picks.map((pick, rank) => {
+                    let pickIndex = getGroupIndex(pick);
+
+                    return {
+                        username: pick,
+                        name: getName(pick),
+                        rank: rank + 1,
+                        groupName: pickIndex === -1 ? undefined : groupDefinitions.getName(pickIndex, definitions),
+                        isTogether: pickIndex === index,
+                    };
+                }),
+                pickedBy: group.filter((member) => member !== username && (preferences[member] || []).includes(username)).map(getName),
+                togetherWith: unit.filter((member) => member !== username).map(getName),
+                blockedGroups: _.sortBy(blockedGroups, (blockedGroup) => -blockedGroup.friendCount),
+            });
+        }
+    });
+
+    return explanations;
+}
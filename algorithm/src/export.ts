@@ -0,0 +1,718 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as groupDefinitions from './group-definitions';
+import * as path from 'path';
+import { getAllMultiplier } from './scoring';
+import { getPercent } from './statistics';
+import { PASS_DESCRIPTIONS, StudentExplanation } from './explanation';
+import { GradeResult, Trip, TripGroup } from './plan';
+import { GroupingResult, StudentNames, Username } from './types';
+
+let csv = require('csv-string');
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'html'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'markdown', 'html'];
+
+interface ExportedGroup {
+    number: number;
+    // The group's name, or `Group <number>` if the groups aren't named.
+    name: string;
+    leaders: string[];
+    description?: string;
+    size: number;
+    // The share of the group's members with each gender.
+    genderRatios: { [gender: string]: number };
+    favorability: number;
+    // The number of members with each value of every balanced attribute.
+    attributes: { [attribute: string]: { [value: string]: number } };
+    members: {
+        username: Username;
+        name: string;
+    }[];
+}
+
+/**
+ * Returns the export format to use for an output file based on its extension.
+ *
+ * @param {string} filename The output file path.
+ * @return {string|undefined} The format, or `undefined` if the extension is
+ * not recognized.
+ */
+export let getFormatForFilename = function getExportFormatForFilename(filename: string): ExportFormat | undefined {
+    let extension = path.extname(filename).toLowerCase();
+
+    return ({
+        '.json': 'json',
+        '.csv': 'csv',
+        '.md': 'markdown',
+        '.html': 'html',
+    } as { [extension: string]: ExportFormat })[extension];
+}
+
+/**
+ * Returns the groups of a result along with their per-group statistics.
+ *
+ * @param {Object} result The grouping result.
+ * @param {Object} studentNames An object of usernames and their corresponding
+ * student names. Usernames without a name are used as their own name.
+ * @return {Object[]} The exported groups, in order.
+ */
+let getGroups = function getExportedGroups(result: GroupingResult, studentNames: StudentNames): ExportedGroup[] {
+    let distributions = result.statistics.attributeDistributions;
+
+    let definitions = result.details.groupDefinitions;
+
+    return result.groups.map((group, i) => {
+        let attributes: ExportedGroup['attributes'] = {};
+        let definition = definitions && definitions[i];
+
+        for (let attribute in distributions) {
+            attributes[attribute] = distributions[attribute][i];
+        }
+
+        return {
+            number: i + 1,
+            name: groupDefinitions.getName(i, definitions),
+            leaders: definition && definition.leaders || [],
+            description: definition && definition.description,
+            size: getAllMultiplier(group),
+            genderRatios: _.mapValues(result.statistics.genderRatios, (ratios) => ratios[i]),
+            favorability: result.statistics.percentFavorabilities[i],
+            attributes,
+            members: group.map((username) => {
+                return { username, name: studentNames[username] || username };
+            }),
+        };
+    });
+}
+
+/**
+ * Returns the seed and labeled global statistics of a result, in the same
+ * order as the console output.
+ *
+ * @param {Object} result The grouping result.
+ * @return {string[][]} An array of label and value pairs.
+ */
+export let getStatisticRows = function getLabeledStatistics(result: GroupingResult): string[][] {
+    let statistics = result.statistics;
+
+    let rows = [
+        ['Seed', String(result.details.seed)],
+        ['User count', String(statistics.userCount)],
+        ['Biggest group size', String(statistics.biggestGroupSize)],
+        ['Smallest group size', String(statistics.smallestGroupSize)],
+        ['Placed %', getPercent(statistics.placedPercent)],
+        ['Chosen %', getPercent(statistics.chosePercent)],
+        ['Avg favorability %', getPercent(statistics.avgPercentFavorability)],
+        ['Max favorability %', getPercent(statistics.maxPercentFavorability)],
+        ['Min favorability %', getPercent(statistics.minPercentFavorability)],
+        ['Min friends', String(statistics.minFriends)],
+        ['Min friends users', statistics.minFriendsUsernames.join(' ')],
+    ];
+
+    for (let gender of Object.keys(statistics.genderRatios)) {
+        rows.push(['Avg ' + gender + ' %', getPercent(_.mean(statistics.genderRatios[gender]))]);
+        rows.push(['Max ' + gender + ' %', getPercent(_.max(statistics.genderRatios[gender])!)]);
+        rows.push(['Min ' + gender + ' %', getPercent(_.min(statistics.genderRatios[gender])!)]);
+    }
+
+    rows.push(['Balance violations', String(statistics.balanceViolations)]);
+    rows.push(['Soft anti-preferences together', String(statistics.softAntiPreferenceCount)]);
+
+    if (result.details.history) {
+        rows.push(['Repeat pairs from past groupings', String(statistics.repeatPairCount)]);
+    }
+
+    return rows;
+}
+
+/**
+ * Returns a readable summary of a group's genders, such as
+ * `50% female, 45% male, 5% nonbinary`.
+ *
+ * @param {Object} group The exported group.
+ * @return {string} The summary.
+ */
+let getGenderSummary = function getGenderSummaryForGroup(group: ExportedGroup): string {
+    return Object.keys(group.genderRatios).filter((gender) => group.genderRatios[gender] > 0).map((gender) => {
+        return getPercent(group.genderRatios[gender]) + ' ' + gender;
+    }).join(', ');
+}
+
+/**
+ * Returns a readable summary of a group's balanced attributes, such as
+ * `advisory: Smith 3, Jones 2`.
+ *
+ * @param {Object} group The exported group.
+ * @return {string[]} One summary per attribute.
+ */
+let getAttributeSummaries = function getAttributeSummariesForGroup(group: ExportedGroup): string[] {
+    return Object.keys(group.attributes).map((attribute) => {
+        let distribution = group.attributes[attribute];
+
+        return attribute + ': ' + Object.keys(distribution).map((value) => value + ' ' + distribution[value]).join(', ');
+    });
+}
+
+/**
+ * Returns the leaders and description of a named group, if it has them.
+ *
+ * @param {Object} group The exported group.
+ * @return {string[]} The lines describing the group.
+ */
+let getDefinitionSummaries = function getDefinitionSummariesForGroup(group: ExportedGroup): string[] {
+    let summaries: string[] = [];
+
+    if (group.description) {
+        summaries.push(group.description);
+    }
+
+    if (group.leaders.length > 0) {
+        summaries.push('Leaders: ' + group.leaders.join(', '));
+    }
+
+    return summaries;
+}
+
+/**
+ * Escapes text for use inside of HTML.
+ *
+ * @param {string} text The text to escape.
+ * @return {string} The escaped text.
+ */
+let escapeHTML = function escapeHTMLText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+let toJSON = function exportAsJSON(result: GroupingResult, studentNames: StudentNames): string {
+    return JSON.stringify({
+        groups: getGroups(result, studentNames),
+        // The history can be large, and is already in the past grades' runs.
+        details: { ...result.details, history: undefined },
+        statistics: result.statistics,
+        score: result.score,
+    }, null, 4) + '\n';
+}
+
+let toCSV = function exportAsCSV(result: GroupingResult, studentNames: StudentNames): string {
+    let attributes = Object.keys(result.statistics.attributeDistributions);
+    let genders = Object.keys(result.statistics.genderRatios);
+    let rows = [['Group', 'Username', 'Name', 'Group Size'].concat(genders.map((gender) => 'Group ' + gender + ' %'))
+        .concat(['Group Favorability %']).concat(attributes)];
+
+    for (let group of getGroups(result, studentNames)) {
+        for (let member of group.members) {
+            rows.push([
+                // Named groups are labeled by name, and others by number.
+                result.details.groupDefinitions ? group.name : String(group.number),
+                member.username,
+                member.name,
+                String(group.size),
+            ].concat(genders.map((gender) => getPercent(group.genderRatios[gender] || 0))).concat([
+                getPercent(group.favorability),
+            ]).concat(attributes.map((attribute) => balance.getAttributeValue(result.users, member.username, attribute))));
+        }
+    }
+
+    return rows.map((row) => csv.stringify(row)).join('');
+}
+
+/**
+ * Returns the Markdown lines of a group, with the group's name as a heading.
+ *
+ * @param {Object} group The exported group.
+ * @return {string[]} The lines of the group.
+ */
+let getGroupMarkdown = function getMarkdownForGroup(group: ExportedGroup): string[] {
+    let lines = ['## ' + group.name, ''];
+
+    for (let summary of getDefinitionSummaries(group)) {
+        lines.push(summary);
+        lines.push('');
+    }
+    lines.push(group.size + ' students, ' + getGenderSummary(group) + ', ' + getPercent(group.favorability) + ' favorability');
+    lines.push('');
+
+    if (Object.keys(group.attributes).length > 0) {
+        lines.push(getAttributeSummaries(group).join('; '));
+        lines.push('');
+    }
+
+    for (let member of group.members) {
+        lines.push(' - ' + member.name + ' (' + member.username + ')');
+    }
+
+    lines.push('');
+
+    return lines;
+}
+
+/**
+ * Returns the Markdown table of a result's statistics.
+ *
+ * @param {Object} result The grouping result.
+ * @return {string[]} The lines of the table.
+ */
+let getStatisticsMarkdown = function getMarkdownForStatistics(result: GroupingResult): string[] {
+    let lines = ['| Statistic | Value |', '| --- | --- |'];
+
+    for (let row of getStatisticRows(result)) {
+        lines.push('| ' + row[0] + ' | ' + row[1] + ' |');
+    }
+
+    return lines;
+}
+
+let toMarkdown = function exportAsMarkdown(result: GroupingResult, studentNames: StudentNames): string {
+    let lines: string[] = ['# Groups', ''];
+
+    for (let group of getGroups(result, studentNames)) {
+        lines.push(...getGroupMarkdown(group));
+    }
+
+    lines.push('# Statistics', '', ...getStatisticsMarkdown(result));
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Returns the start of an HTML page, up to and including the opening body tag.
+ *
+ * @param {string} title The title of the page.
+ * @return {string[]} The lines of the page.
+ */
+let getHTMLHead = function getHTMLHeadForTitle(title: string): string[] {
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<title>' + escapeHTML(title) + '</title>',
+        '<style>',
+        'body { font-family: sans-serif; }',
+        'section { page-break-inside: avoid; }',
+        'table { border-collapse: collapse; }',
+        'td, th { border: 1px solid #999; padding: 4px 8px; text-align: left; }',
+        '</style>',
+        '</head>',
+        '<body>',
+    ];
+}
+
+/**
+ * Returns the HTML section of a group, with the group's name as a heading.
+ *
+ * @param {Object} group The exported group.
+ * @return {string[]} The lines of the section.
+ */
+let getGroupHTML = function getHTMLForGroup(group: ExportedGroup): string[] {
+    let lines = ['<section>', '<h2>' + escapeHTML(group.name) + '</h2>'];
+
+    for (let summary of getDefinitionSummaries(group)) {
+        lines.push('<p>' + escapeHTML(summary) + '</p>');
+    }
+    lines.push('<p>' + group.size + ' students, ' + escapeHTML(getGenderSummary(group)) + ', ' +
+        getPercent(group.favorability) + ' favorability</p>');
+
+    for (let summary of getAttributeSummaries(group)) {
+        lines.push('<p>' + escapeHTML(summary) + '</p>');
+    }
+
+    lines.push('<ol>');
+
+    for (let member of group.members) {
+        lines.push('<li>' + escapeHTML(member.name) + ' (' + escapeHTML(member.username) + ')</li>');
+    }
+
+    lines.push('</ol>');
+    lines.push('</section>');
+
+    return lines;
+}
+
+/**
+ * Returns the HTML section of a result's statistics.
+ *
+ * @param {Object} result The grouping result.
+ * @param {string} title The heading of the section.
+ * @return {string[]} The lines of the section.
+ */
+let getStatisticsHTML = function getHTMLForStatistics(result: GroupingResult, title: string): string[] {
+    let lines = ['<section>', '<h2>' + escapeHTML(title) + '</h2>', '<table>'];
+
+    for (let row of getStatisticRows(result)) {
+        lines.push('<tr><th>' + escapeHTML(row[0]) + '</th><td>' + escapeHTML(row[1]) + '</td></tr>');
+    }
+
+    lines.push('</table>', '</section>');
+
+    return lines;
+}
+
+let toHTML = function exportAsHTML(result: GroupingResult, studentNames: StudentNames): string {
+    let lines = getHTMLHead('Groups');
+
+    for (let group of getGroups(result, studentNames)) {
+        lines.push(...getGroupHTML(group));
+    }
+
+    lines.push(...getStatisticsHTML(result, 'Statistics'), '</body>', '</html>');
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports a result as JSON, CSV (one row per student), Markdown, or HTML.
+ *
+ * @param {Object} result The grouping result to export.
+ * @param {Object} studentNames An object of usernames and their corresponding
+ * student names.
+ * @param {string} format The export format.
+ * @return {string} The exported text.
+ */
+export let getExport = function exportResult(result: GroupingResult, studentNames: StudentNames, format: ExportFormat): string {
+    switch (format) {
+        case 'json':
+            return toJSON(result, studentNames);
+        case 'csv':
+            return toCSV(result, studentNames);
+        case 'markdown':
+            return toMarkdown(result, studentNames);
+        case 'html':
+            return toHTML(result, studentNames);
+    }
+}
+
+/**
+ * Returns the heading of a trip's group, such as `grade2021, Group 1`.
+ *
+ * @param {Object} trip The trip.
+ * @param {Object} tripGroup The group of the trip.
+ * @return {string} The heading.
+ */
+let getTripGroupHeading = function getHeadingForTripGroup(trip: Trip, tripGroup: TripGroup): string {
+    return trip.name + ', ' + tripGroup.name;
+}
+
+/**
+ * Returns the name of every student in a batch, keyed by username.
+ *
+ * @param {Object[]} gradeResults The grouped grades.
+ * @return {Object} The student names. Usernames without a name are left out.
+ */
+let getBatchStudentNames = function getStudentNamesForBatch(gradeResults: GradeResult[]): StudentNames {
+    return Object.assign({}, ...gradeResults.map((gradeResult) => gradeResult.loaded.studentNames));
+}
+
+let batchToJSON = function exportBatchAsJSON(gradeResults: GradeResult[], trips: Trip[]): string {
+    let studentNames = getBatchStudentNames(gradeResults);
+
+    return JSON.stringify({
+        trips: trips.map((trip) => {
+            return {
+                name: trip.name,
+                grades: trip.gradeNames,
+                groups: trip.groups.map((tripGroup) => {
+                    return {
+                        name: tripGroup.name,
+                        size: tripGroup.size,
+                        parts: tripGroup.parts.map((part) => {
+                            return {
+                                grade: part.gradeName,
+                                group: part.groupName,
+                                members: part.members.map((username) => {
+                                    return { username, name: studentNames[username] || username };
+                                }),
+                            };
+                        }),
+                    };
+                }),
+            };
+        }),
+        grades: gradeResults.map((gradeResult) => {
+            let result = gradeResult.result;
+
+            return {
+                grade: gradeResult.loaded.gradeName,
+                groups: getGroups(result, gradeResult.loaded.studentNames),
+                details: { ...result.details, history: undefined },
+                statistics: result.statistics,
+                score: result.score,
+            };
+        }),
+    }, null, 4) + '\n';
+}
+
+let batchToCSV = function exportBatchAsCSV(gradeResults: GradeResult[], trips: Trip[]): string {
+    let attributes = _.uniq(_.flatMap(gradeResults, (gradeResult) => Object.keys(gradeResult.result.statistics.attributeDistributions)));
+    let genders = _.uniq(_.flatMap(gradeResults, (gradeResult) => Object.keys(gradeResult.result.statistics.genderRatios))).sort();
+    let rows = [['Grade', 'Trip', 'Trip Group', 'Group', 'Username', 'Name', 'Group Size']
+        .concat(genders.map((gender) => 'Group ' + gender + ' %')).concat(['Group Favorability %']).concat(attributes)];
+
+    for (let gradeResult of gradeResults) {
+        let result = gradeResult.result;
+        let gradeName = gradeResult.loaded.gradeName;
+        let trip = _.find(trips, (candidate) => candidate.gradeNames.includes(gradeName));
+
+        for (let group of getGroups(result, gradeResult.loaded.studentNames)) {
+            for (let member of group.members) {
+                rows.push([
+                    gradeName,
+                    trip ? trip.name : '',
+                    trip ? trip.groups[group.number - 1].name : '',
+                    result.details.groupDefinitions ? group.name : String(group.number),
+                    member.username,
+                    member.name,
+                    String(group.size),
+                ].concat(genders.map((gender) => getPercent(group.genderRatios[gender] || 0))).concat([
+                    getPercent(group.favorability),
+                ]).concat(attributes.map((attribute) => balance.getAttributeValue(result.users, member.username, attribute))));
+            }
+        }
+    }
+
+    return rows.map((row) => csv.stringify(row)).join('');
+}
+
+let batchToMarkdown = function exportBatchAsMarkdown(gradeResults: GradeResult[], trips: Trip[]): string {
+    let studentNames = getBatchStudentNames(gradeResults);
+    let lines: string[] = [];
+
+    if (trips.length > 0) {
+        lines.push('# Trips', '');
+    }
+
+    for (let trip of trips) {
+        for (let tripGroup of trip.groups) {
+            lines.push('## ' + getTripGroupHeading(trip, tripGroup), '', tripGroup.size + ' students', '');
+
+            for (let part of tripGroup.parts) {
+                lines.push(part.gradeName + ', ' + part.groupName + ':', '');
+
+                for (let username of part.members) {
+                    lines.push(' - ' + (studentNames[username] || username) + ' (' + username + ')');
+                }
+
+                lines.push('');
+            }
+        }
+    }
+
+    for (let gradeResult of gradeResults) {
+        lines.push('# ' + gradeResult.loaded.gradeName, '');
+
+        for (let group of getGroups(gradeResult.result, gradeResult.loaded.studentNames)) {
+            lines.push(...getGroupMarkdown(group));
+        }
+
+        lines.push('## Statistics', '', ...getStatisticsMarkdown(gradeResult.result), '');
+    }
+
+    return lines.join('\n');
+}
+
+let batchToHTML = function exportBatchAsHTML(gradeResults: GradeResult[], trips: Trip[]): string {
+    let studentNames = getBatchStudentNames(gradeResults);
+    let lines = getHTMLHead('Groups');
+
+    if (trips.length > 0) {
+        lines.push('<h1>Trips</h1>');
+    }
+
+    for (let trip of trips) {
+        for (let tripGroup of trip.groups) {
+            lines.push('<section>', '<h2>' + escapeHTML(getTripGroupHeading(trip, tripGroup)) + '</h2>');
+            lines.push('<p>' + tripGroup.size + ' students</p>');
+
+            for (let part of tripGroup.parts) {
+                lines.push('<p>' + escapeHTML(part.gradeName + ', ' + part.groupName) + ':</p>', '<ol>');
+
+                for (let username of part.members) {
+                    lines.push('<li>' + escapeHTML(studentNames[username] || username) + ' (' + escapeHTML(username) + ')</li>');
+                }
+
+                lines.push('</ol>');
+            }
+
+            lines.push('</section>');
+        }
+    }
+
+    for (let gradeResult of gradeResults) {
+        lines.push('<h1>' + escapeHTML(gradeResult.loaded.gradeName) + '</h1>');
+
+        for (let group of getGroups(gradeResult.result, gradeResult.loaded.studentNames)) {
+            lines.push(...getGroupHTML(group));
+        }
+
+        lines.push(...getStatisticsHTML(gradeResult.result, 'Statistics'));
+    }
+
+    lines.push('</body>', '</html>');
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports every grade of a batch as JSON, CSV (one row per student),
+ * Markdown, or HTML. The groups of each trip come first, followed by the
+ * groups and statistics of each grade.
+ *
+ * @param {Object[]} gradeResults The grouped grades, in plan order.
+ * @param {Object[]} trips The trips the grades were matched up into.
+ * @param {string} format The export format.
+ * @return {string} The exported text.
+ */
+export let getBatchExport = function exportBatch(gradeResults: GradeResult[], trips: Trip[], format: ExportFormat): string {
+    switch (format) {
+        case 'json':
+            return batchToJSON(gradeResults, trips);
+        case 'csv':
+            return batchToCSV(gradeResults, trips);
+        case 'markdown':
+            return batchToMarkdown(gradeResults, trips);
+        case 'html':
+            return batchToHTML(gradeResults, trips);
+    }
+}
+
+/**
+ * Returns a readable summary of a student's picks, such as
+ * `1. Ann Lee (Group 2)`, marking the picks in their own group.
+ *
+ * @param {Object} explanation The student's explanation.
+ * @return {string[]} One summary per pick.
+ */
+let getPickSummaries = function getPickSummariesForStudent(explanation: StudentExplanation): string[] {
+    return explanation.picks.map((pick) => {
+        let place = pick.isTogether ? 'together' : pick.groupName || 'not in a group';
+        return pick.rank + '. ' + pick.name + ' (' + place + ')';
+    });
+}
+
+/**
+ * Returns a readable summary of each group a student has more friends in,
+ * along with what keeps them out of it.
+ *
+ * @param {Object} explanation The student's explanation.
+ * @return {string[]} One summary per group.
+ */
+let getBlockedSummaries = function getBlockedSummariesForStudent(explanation: StudentExplanation): string[] {
+    return explanation.blockedGroups.map((blockedGroup) => {
+        let friends = blockedGroup.friendCount + (blockedGroup.friendCount === 1 ? ' friend' : ' friends');
+        return blockedGroup.groupName + ' (' + friends + '): ' + blockedGroup.reasons.join('; ');
+    });
+}
+
+/**
+ * Returns the labeled lines of a student's explanation, in the order they are
+ * shown in Markdown and HTML.
+ *
+ * @param {Object} explanation The student's explanation.
+ * @return {string[][]} An array of label and value pairs.
+ */
+let getExplanationRows = function getLabeledExplanation(explanation: StudentExplanation): string[][] {
+    let rows = [
+        ['Group', explanation.groupName],
+        ['Placement', explanation.pass ? PASS_DESCRIPTIONS[explanation.pass] : 'Unknown'],
+        ['Friends in group', String(explanation.friendCount)],
+        ['Picks', explanation.picks.length > 0 ? getPickSummaries(explanation).join(', ') : 'None listed'],
+        ['Picked by', explanation.pickedBy.length > 0 ? explanation.pickedBy.join(', ') : 'No-one in the group'],
+    ];
+
+    if (explanation.togetherWith.length > 0) {
+        rows.push(['Must be with', explanation.togetherWith.join(', ')]);
+    }
+
+    return rows;
+}
+
+/**
+ * Exports the explanations of a result's students as JSON, CSV (one row per
+ * student), Markdown, or HTML, so that they can be shared with counselors.
+ *
+ * @param {Object[]} explanations The students' explanations.
+ * @param {string} format The export format.
+ * @return {string} The exported text.
+ */
+export let getExplanationExport = function exportExplanations(explanations: StudentExplanation[], format: ExportFormat): string {
+    if (format === 'json') {
+        return JSON.stringify(explanations, null, 4) + '\n';
+    }
+
+    if (format === 'csv') {
+        let rows = [['Username', 'Name', 'Group', 'Placement', 'Friends In Group', 'Picks', 'Picked By', 'Must Be With', 'Groups With More Friends']];
+
+        for (let explanation of explanations) {
+            rows.push([
+                explanation.username,
+                explanation.name,
+                explanation.groupName,
+                explanation.pass ? PASS_DESCRIPTIONS[explanation.pass] : '',
+                String(explanation.friendCount),
+                getPickSummaries(explanation).join('\n'),
+                explanation.pickedBy.join('\n'),
+                explanation.togetherWith.join('\n'),
+                getBlockedSummaries(explanation).join('\n'),
+            ]);
+        }
+
+        return rows.map((row) => csv.stringify(row)).join('');
+    }
+
+    if (format === 'markdown') {
+        let lines = ['# Student Explanations', ''];
+
+        for (let explanation of explanations) {
+            lines.push('## ' + explanation.name + ' (' + explanation.username + ')', '');
+
+            for (let row of getExplanationRows(explanation)) {
+                lines.push(' - ' + row[0] + ': ' + row[1]);
+            }
+
+            lines.push('');
+
+            if (explanation.blockedGroups.length > 0) {
+                lines.push('Groups with more friends:', '');
+
+                for (let summary of getBlockedSummaries(explanation)) {
+                    lines.push(' - ' + summary);
+                }
+
+                lines.push('');
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    let lines = getHTMLHead('Student Explanations');
+
+    for (let explanation of explanations) {
+        lines.push('<section>');
+        lines.push('<h2>' + escapeHTML(explanation.name) + ' (' + escapeHTML(explanation.username) + ')</h2>', '<table>');
+
+        for (let row of getExplanationRows(explanation)) {
+            lines.push('<tr><th>' + escapeHTML(row[0]) + '</th><td>' + escapeHTML(row[1]) + '</td></tr>');
+        }
+
+        lines.push('</table>');
+
+        if (explanation.blockedGroups.length > 0) {
+            lines.push('<p>Groups with more friends:</p>', '<ul>');
+
+            for (let summary of getBlockedSummaries(explanation)) {
+                lines.push('<li>' + escapeHTML(summary) + '</li>');
+            }
+
+            lines.push('</ul>');
+        }
+
+        lines.push('</section>');
+    }
+
+    lines.push('</body>', '</html>');
+
+    return lines.join('\n') + '\n';
+}
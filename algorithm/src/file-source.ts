@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as gender from './gender';
+import * as path from 'path';
+import { DataSource, GradeRecord, GroupingRecord, GroupingRecords, UserDetails } from './types';
+
+let csv = require('csv-string');
+
+interface SavedGroupings {
+    publishedRunID?: string;
+    runs: GroupingRecords;
+}
+
+interface Snapshot {
+    grades: { [gradeName: string]: GradeRecord };
+    'user-records': UserDetails;
+    groupings: { [gradeName: string]: SavedGroupings };
+}
+
+/**
+ * Reads a JSON snapshot. The snapshot mirrors the Firestore collections, with
+ * a `grades` object of grade documents and a `user-records` object of user
+ * records, both keyed by document ID. Saved runs are kept in a `groupings`
+ * object keyed by grade.
+ *
+ * @param {string} filename The path of the JSON file.
+ * @return {Object} The parsed snapshot.
+ */
+let readJSON = function readJSONSnapshot(filename: string): Snapshot {
+    let parsed = JSON.parse(fs.readFileSync(filename, 'utf-8'));
+
+    return {
+        grades: parsed.grades || {},
+        'user-records': parsed['user-records'] || {},
+        groupings: parsed.groupings || {},
+    };
+}
+
+/**
+ * Reads a CSV file in the same format accepted by `update-db-from-csv.js`:
+ * each row is a username, "Boy" or "Girl," and then the user's preferences in
+ * order. Since the file has no grade column, every row is placed into the
+ * grade being read. The file has no names either, so usernames are used as
+ * student names.
+ *
+ * @param {string} filename The path of the CSV file.
+ * @param {string} gradeName The grade to place all rows into.
+ * @return {Object} The parsed snapshot.
+ */
+let readCSV = function readCSVSnapshot(filename: string, gradeName: string): Snapshot {
+    let rows: string[][] = csv.parse(fs.readFileSync(filename, 'utf-8'));
+    let grade: GradeRecord = { students: {}, antiPreferences: [] };
+    let users: UserDetails = {};
+
+    for (let row of rows) {
+        let username = row[0].trim();
+
+        if (!username) {
+            continue;
+        }
+
+        let preferences = row.slice(2).map((preference) => preference.trim()).filter((preference) => preference);
+
+        grade.students![username] = username;
+        users[username] = {
+            grade: gradeName,
+            gender: gender.parse(row[1]),
+        };
+
+        if (preferences.length > 0) {
+            users[username].preferences = preferences;
+        }
+    }
+
+    return {
+        grades: { [gradeName]: grade },
+        'user-records': users,
+        groupings: {},
+    };
+}
+
+/**
+ * Writes the saved runs of a snapshot back into its JSON file, keeping any
+ * other keys in the file as they are.
+ *
+ * @param {string} filename The path of the JSON file.
+ * @param {Object} snapshot The snapshot containing the runs to write.
+ */
+let writeGroupings = function writeGroupingsToJSON(filename: string, snapshot: Snapshot): void {
+    let parsed = JSON.parse(fs.readFileSync(filename, 'utf-8'));
+    parsed.groupings = snapshot.groupings;
+    fs.writeFileSync(filename, JSON.stringify(parsed, null, 4) + '\n');
+}
+
+/**
+ * Creates a data source that reads from a local JSON or CSV file instead of
+ * Firestore. The file is read once, on the first request. Runs can only be
+ * saved into JSON files, since CSV files have nowhere to keep them.
+ *
+ * @param {string} filename The path of the `.json` or `.csv` file.
+ * @return {Object} The file data source.
+ */
+export let create = function createFileSource(filename: string): DataSource {
+    let extension = path.extname(filename).toLowerCase();
+    let snapshot: Snapshot | undefined;
+
+    if (extension !== '.json' && extension !== '.csv') {
+        throw new Error('Unsupported data file ' + filename + '. Use a .json or .csv file.');
+    }
+
+    let getSnapshot = function getCachedSnapshot(gradeName: string): Snapshot {
+        if (!snapshot) {
+            snapshot = extension === '.json' ? readJSON(filename) : readCSV(filename, gradeName);
+        }
+
+        return snapshot;
+    }
+
+    let getSavedGroupings = function getSavedGroupingsForGrade(gradeName: string): SavedGroupings {
+        let groupings = getSnapshot(gradeName).groupings;
+
+        if (!groupings[gradeName]) {
+            groupings[gradeName] = { runs: {} };
+        }
+
+        return groupings[gradeName];
+    }
+
+    let checkWritable = function checkFileIsWritable(): void {
+        if (extension !== '.json') {
+            throw new Error('Runs can only be saved into .json data files, not ' + filename + '.');
+        }
+    }
+
+    return {
+        getGrade: function getGradeFromFile(gradeName: string): Promise<GradeRecord> {
+            return new Promise((resolve) => {
+                resolve(getSnapshot(gradeName).grades[gradeName] || {});
+            });
+        },
+
+        getUsers: function getUsersFromFile(gradeName: string): Promise<UserDetails> {
+            return new Promise((resolve) => {
+                let allUsers = getSnapshot(gradeName)['user-records'];
+                let users: UserDetails = {};
+
+                for (let username in allUsers) {
+                    if (allUsers[username].grade !== gradeName) {
+                        continue;
+                    }
+
+                    users[username] = allUsers[username];
+                }
+
+                resolve(users);
+            });
+        },
+
+        getAllUsers: function getAllUsersFromFile(): Promise<UserDetails> {
+            return new Promise((resolve) => {
+                // A CSV file has no grade column, so its rows only belong to a
+                // grade once one has been read.
+                if (!snapshot && extension === '.csv') {
+                    throw new Error('Read a grade from ' + filename + ' before reading all of its users.');
+                }
+
+                resolve(getSnapshot('')['user-records']);
+            });
+        },
+
+        saveGrouping: function saveGroupingToFile(gradeName: string, record: GroupingRecord): Promise<string> {
+            return new Promise((resolve) => {
+                checkWritable();
+
+                let saved = getSavedGroupings(gradeName);
+                let runNumber = Object.keys(saved.runs).length + 1;
+
+                while (saved.runs['run' + runNumber]) {
+                    runNumber++;
+                }
+
+                saved.runs['run' + runNumber] = record;
+                writeGroupings(filename, snapshot!);
+
+                resolve('run' + runNumber);
+            });
+        },
+
+        getGroupings: function getGroupingsFromFile(gradeName: string): Promise<GroupingRecords> {
+            return new Promise((resolve) => {
+                resolve(getSavedGroupings(gradeName).runs);
+            });
+        },
+
+        publishGrouping: function publishGroupingInFile(gradeName: string, runID: string): Promise<void> {
+            return new Promise((resolve) => {
+                checkWritable();
+
+                let saved = getSavedGroupings(gradeName);
+
+                if (!saved.runs[runID]) {
+                    throw new Error('There is no run ' + runID + ' for ' + gradeName + '.');
+                }
+
+                if (saved.publishedRunID && saved.runs[saved.publishedRunID]) {
+                    saved.runs[saved.publishedRunID].status = 'draft';
+                }
+
+                saved.runs[runID].status = 'published';
+                saved.publishedRunID = runID;
+                writeGroupings(filename, snapshot!);
+
+                resolve();
+            });
+        },
+    };
+}
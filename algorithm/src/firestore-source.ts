@@ -0,0 +1,128 @@
+import * as databaseSource from './database';
+import { DataSource, GradeRecord, Group, GroupingRecord, GroupingRecords, UserDetails } from './types';
+
+/**
+ * Converts a run record into a Firestore document. Firestore does not allow
+ * arrays directly inside of arrays, so each group is wrapped in an object.
+ *
+ * @param {Object} record The run record.
+ * @return {Object} The Firestore document data.
+ */
+let toDocument = function convertGroupingToDocument(record: GroupingRecord): { [key: string]: any } {
+    // Firestore rejects `undefined` values, and converting to JSON and back
+    // leaves out every key that has one.
+    let document = JSON.parse(JSON.stringify(record));
+
+    document.groups = record.groups.map((group: Group) => {
+        return { members: group };
+    });
+
+    return document;
+}
+
+/**
+ * Converts a Firestore document back into a run record.
+ *
+ * @param {Object} document The Firestore document data.
+ * @return {Object} The run record.
+ */
+let fromDocument = function convertDocumentToGrouping(document: { [key: string]: any }): GroupingRecord {
+    let record = document as GroupingRecord;
+
+    record.groups = document.groups.map((group: { members: Group }) => {
+        return group.members;
+    });
+
+    return record;
+}
+
+/**
+ * Creates a data source that reads from the production Firestore database.
+ *
+ * @return {Object} The Firestore data source.
+ */
+export let create = function createFirestoreSource(): DataSource {
+    let db = databaseSource.get().firestore();
+
+    return {
+        getGrade: function getGradeFromFirestore(gradeName: string): Promise<GradeRecord> {
+            return db.collection('grades').doc(gradeName).get().then((snapshot) => {
+                return snapshot.data() || {};
+            });
+        },
+
+        getUsers: function getUsersFromFirestore(gradeName: string): Promise<UserDetails> {
+            return db.collection('user-records').get().then((snapshot) => {
+                let users: UserDetails = {};
+
+                snapshot.docs.forEach((doc) => {
+                    if (!doc.data().grade || doc.data().grade !== gradeName) {
+                        return;
+                    }
+
+                    users[doc.id] = doc.data() as any;
+                });
+
+                return users;
+            });
+        },
+
+        getAllUsers: function getAllUsersFromFirestore(): Promise<UserDetails> {
+            return db.collection('user-records').get().then((snapshot) => {
+                let users: UserDetails = {};
+
+                snapshot.docs.forEach((doc) => {
+                    users[doc.id] = doc.data() as any;
+                });
+
+                return users;
+            });
+        },
+
+        saveGrouping: function saveGroupingToFirestore(gradeName: string, record: GroupingRecord): Promise<string> {
+            // `doc()` picks a new random ID, and `create()` fails rather than
+            // overwriting if that ID is somehow already taken.
+            let runReference = db.collection('groupings').doc(gradeName).collection('runs').doc();
+
+            return runReference.create(toDocument(record)).then(() => {
+                return runReference.id;
+            });
+        },
+
+        getGroupings: function getGroupingsFromFirestore(gradeName: string): Promise<GroupingRecords> {
+            return db.collection('groupings').doc(gradeName).collection('runs').get().then((snapshot) => {
+                let records: GroupingRecords = {};
+
+                snapshot.docs.forEach((doc) => {
+                    records[doc.id] = fromDocument(doc.data());
+                });
+
+                return records;
+            });
+        },
+
+        publishGrouping: function publishGroupingInFirestore(gradeName: string, runID: string): Promise<void> {
+            let gradeReference = db.collection('groupings').doc(gradeName);
+            let runReference = gradeReference.collection('runs').doc(runID);
+
+            // The published run is read and replaced in one transaction, so
+            // that two runs published at once can't both end up published.
+            return db.runTransaction((transaction) => {
+                return Promise.all([transaction.get(gradeReference), transaction.get(runReference)]).then((snapshots) => {
+                    if (!snapshots[1].exists) {
+                        throw new Error('There is no run ' + runID + ' for ' + gradeName + '.');
+                    }
+
+                    let previousRunID = (snapshots[0].data() || {}).publishedRunID;
+
+                    if (previousRunID && previousRunID !== runID) {
+                        transaction.update(gradeReference.collection('runs').doc(previousRunID), { status: 'draft' });
+                    }
+
+                    transaction.update(runReference, { status: 'published' });
+                    transaction.set(gradeReference, { publishedRunID: runID }, { merge: true });
+                });
+            });
+        },
+    };
+}
@@ -0,0 +1,280 @@
+import * as _ from 'lodash';
+import { getMultiplier } from './scoring';
+import { GenderConfig, GroupDefinition, Group, UserDetails, Username } from './types';
+
+export const POLICIES = ['ignore', 'half', 'proportional', 'single'];
+export const DEFAULT_POLICY = 'half';
+// The gender of users whose records have neither `gender` nor `isMale`.
+export const UNKNOWN_GENDER = 'unknown';
+
+// The gender that each older spelling stands for, such as the `Boy` and `Girl`
+// of the preference form's CSV export.
+const SPELLINGS: { [spelling: string]: string } = {
+    boy: 'male',
+    m: 'male',
+    girl: 'female',
+    f: 'female',
+};
+
+/**
+ * The gender each user counts as, and how many of each gender a group may
+ * have, worked out once for a set of groups.
+ */
+export interface GenderLimits {
+    // The gender of each user, after any mapping.
+    genders: { [username: string]: string };
+
+    /**
+     * Returns the most members of a gender that a group may have.
+     */
+    getCapacity(index: number, gender: string): number;
+
+    /**
+     * Returns whether a group has more than one gender, or a gender other than
+     * its definition's, when every group must have only one. Unlike the other
+     * limits, this is never relaxed to place a student.
+     */
+    isMixed(group: Group, index: number): boolean;
+}
+
+/**
+ * Turns a gender as written in a CSV file or on a user record into the value
+ * used for grouping, which is lowercase. `Boy` and `Girl` become `male` and
+ * `female`, and any other value is kept as it is.
+ *
+ * @param {string} [value] The gender as written.
+ * @return {string|undefined} The gender, or `undefined` if it is blank.
+ */
+export let parse = function parseGender(value?: string): string | undefined {
+    let gender = (value || '').trim().toLowerCase();
+    return gender ? SPELLINGS[gender] || gender : undefined;
+}
+
+/**
+ * Returns a user's gender. Older records only have `isMale`, which is read as
+ * `male` or `female`.
+ *
+ * @param {Object} users The user details object.
+ * @param {string} username The user.
+ * @return {string} The user's gender.
+ */
+export let get = function getGender(users: UserDetails, username: Username): string {
+    let user = users[username];
+    let gender = parse(user.gender);
+
+    if (gender) {
+        return gender;
+    }
+
+    return user.isMale === undefined ? UNKNOWN_GENDER : user.isMale ? 'male' : 'female';
+}
+
+/**
+ * Returns the gender of every user.
+ *
+ * @param {Object} users The user details object.
+ * @return {Object} The gender of each user.
+ */
+export let getAll = function getAllGenders(users: UserDetails): { [username: string]: string } {
+    return _.mapValues(users, (user, username) => get(users, username));
+}
+
+/**
+ * Returns the genders that a set of users count as under a gender policy.
+ * With single-gender groups, a user is mapped by their username, or otherwise
+ * by their gender, to the gender whose groups they join.
+ *
+ * @param {Object} users The user details object.
+ * @param {Object} config The gender policy.
+ * @return {Object} The gender of each user.
+ */
+export let getGenders = function getGendersForUsers(users: UserDetails, config: GenderConfig): { [username: string]: string } {
+    let mapping = config.policy === 'single' ? config.mapping || {} : {};
+
+    return _.mapValues(getAll(users), (gender, username) => parse(mapping[username]) || parse(mapping[gender]) || gender);
+}
+
+/**
+ * Returns how many members of a group have each gender, counting joint-users
+ * by their multiplier.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {Object} genders The gender of each user.
+ * @return {Object} The number of members of each gender.
+ */
+export let getDistribution = function getGenderDistribution(
+    group: Group,
+    genders: { [username: string]: string }
+): { [gender: string]: number } {
+    let distribution: { [gender: string]: number } = {};
+
+    for (let username of group) {
+        distribution[genders[username]] = (distribution[genders[username]] || 0) + getMultiplier(username);
+    }
+
+    return distribution;
+}
+
+/**
+ * Returns the share of a group's members that have a gender. Joint-users are
+ * counted once, as they always have been for gender ratios.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {string} gender The gender.
+ * @param {Object} genders The gender of each user.
+ * @return {number} The share, from 0 to 1.
+ */
+export let getShare = function getGenderShare(group: Group, gender: string, genders: { [username: string]: string }): number {
+    return group.filter((username) => genders[username] === gender).length / group.length;
+}
+
+/**
+ * Returns the share of each group's members with each gender.
+ *
+ * @param {string[][]} groups The groups.
+ * @param {Object} genders The gender of each user.
+ * @return {Object} The shares of each gender, in group order.
+ */
+export let getShares = function getGenderShares(groups: Group[], genders: { [username: string]: string }): { [gender: string]: number[] } {
+    let genderNames = _.uniq(_.flatten(groups).map((username) => genders[username])).sort();
+    return _.fromPairs(genderNames.map((gender) => [gender, groups.map((group) => getShare(group, gender, genders))]));
+}
+
+/**
+ * Returns the largest difference between two groups' shares of any one
+ * gender. With two genders, this is the difference between the groups with
+ * the highest and lowest male share.
+ *
+ * @param {Object} shares The shares of each gender, in group order.
+ * @return {number} The spread.
+ */
+export let getSpread = function getGenderSpread(shares: { [gender: string]: number[] }): number {
+    return _.max(_.values(shares).map((genderShares) => _.max(genderShares)! - _.min(genderShares)!)) || 0;
+}
+
+/**
+ * Returns the capacity that a group definition gives a gender, if it gives
+ * one. `maleCapacity` and `femaleCapacity` are kept for older definitions.
+ *
+ * @param {Object} [definition] The group definition.
+ * @param {string} gender The gender.
+ * @return {number|undefined} The capacity, or `undefined` if there isn't one.
+ */
+let getDefinedCapacity = function getDefinedCapacityForGender(definition: GroupDefinition | undefined, gender: string): number | undefined {
+    if (!definition) {
+        return undefined;
+    }
+
+    let key = _.findKey(definition.genderCapacities || {}, (capacity, genderName) => parse(genderName) === gender);
+
+    if (key !== undefined) {
+        return definition.genderCapacities![key];
+    }
+
+    return gender === 'male' ? definition.maleCapacity : gender === 'female' ? definition.femaleCapacity : undefined;
+}
+
+/**
+ * Works out the gender limits of a set of groups under a gender policy.
+ *
+ *  - `ignore` has no gender limits.
+ *  - `half` lets a group have up to half of its size of any one gender.
+ *  - `proportional` lets a group have up to its share of each gender in the
+ *    grade, rounded up.
+ *  - `single` keeps every group to one gender, which is the group
+ *    definition's `gender` if it has one.
+ *
+ * A group definition's capacity for a gender replaces the policy's, except
+ * when gender is ignored.
+ *
+ * @param {Object} users The user details object.
+ * @param {number[]} groupSizes The group sizes.
+ * @param {Object} config The gender policy.
+ * @param {Object[]} [definitions] The group definitions, if the groups are
+ * named.
+ * @return {Object} The gender limits.
+ */
+export let getLimits = function getGenderLimits(
+    users: UserDetails,
+    groupSizes: number[],
+    config: GenderConfig,
+    definitions?: GroupDefinition[]
+): GenderLimits {
+    let genders = getGenders(users, config);
+    let counts = getDistribution(Object.keys(users), genders);
+    let total = _.sum(_.values(counts));
+
+    return {
+        genders,
+
+        getCapacity: function getGenderCapacity(index: number, gender: string): number {
+            let definition = definitions && definitions[index];
+            let capacity = getDefinedCapacity(definition, gender);
+
+            if (config.policy === 'ignore') {
+                return Infinity;
+            }
+
+            if (capacity !== undefined) {
+                return capacity;
+            }
+
+            if (config.policy === 'proportional') {
+                return Math.ceil(groupSizes[index] * (counts[gender] || 0) / total);
+            }
+
+            if (config.policy === 'single') {
+                return definition && definition.gender !== undefined && parse(definition.gender) !== gender ? 0 : Infinity;
+            }
+
+            return Math.floor(groupSizes[index] / 2);
+        },
+
+        isMixed: function isGroupMixed(group: Group, index: number): boolean {
+            if (config.policy !== 'single') {
+                return false;
+            }
+
+            let definition = definitions && definitions[index];
+
+            if (definition && definition.gender !== undefined && group.some((username) => genders[username] !== parse(definition!.gender))) {
+                return true;
+            }
+
+            for (let i = 1; i < group.length; i++) {
+                if (genders[group[i]] !== genders[group[0]]) {
+                    return true;
+                }
+            }
+
+            return false;
+        },
+    };
+}
+
+/**
+ * Returns the first problem with a gender policy, if there is one.
+ *
+ * @param {Object} config The gender policy to check.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the policy is valid.
+ */
+export let getConfigError = function getGenderConfigError(config: GenderConfig): string | undefined {
+    if (!config || !POLICIES.includes(config.policy)) {
+        return (config && config.policy) + ' is not a valid gender policy. The policies are ' + POLICIES.join(', ') + '.';
+    }
+
+    if (config.mapping === undefined) {
+        return undefined;
+    }
+
+    if (config.policy !== 'single') {
+        return 'A gender mapping can only be used with the single gender policy.';
+    }
+
+    if (typeof config.mapping !== 'object' || _.values(config.mapping).some((gender) => typeof gender !== 'string' || !parse(gender))) {
+        return 'A gender mapping must map usernames or genders to genders, e.g., { "nonbinary": "female" }.';
+    }
+
+    return undefined;
+}
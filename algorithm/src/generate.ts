@@ -0,0 +1,68 @@
+import * as _ from 'lodash';
+import * as cohort from './cohort';
+import * as fs from 'fs';
+import * as yargs from 'yargs';
+import { CohortOptions } from './cohort';
+
+let outFilename = yargs.argv.out as string | undefined;
+let defaults = cohort.DEFAULT_OPTIONS;
+
+/**
+ * Returns a numeric command-line argument, or a default if it isn't given.
+ *
+ * @param {string} name The name of the argument.
+ * @param {number} defaultValue The value to use if it isn't given.
+ * @return {number} The value of the argument.
+ */
+let getNumber = function getNumberArgument(name: string, defaultValue: number): number {
+    return yargs.argv[name] === undefined ? defaultValue : Number(yargs.argv[name]);
+}
+
+/**
+ * Returns the gender mix argument, as comma-separated shares, e.g.,
+ * `male=0.45,female=0.45,nonbinary=0.1`, or a default if it isn't given.
+ *
+ * @param {Object} defaultValue The value to use if it isn't given.
+ * @return {Object} The share of each gender.
+ */
+let getGenderMix = function getGenderMixArgument(defaultValue: { [gender: string]: number }): { [gender: string]: number } {
+    if (yargs.argv.genderMix === undefined) {
+        return defaultValue;
+    }
+
+    return _.fromPairs(String(yargs.argv.genderMix).split(',').map((pair) => {
+        let parts = pair.split('=').map((part) => part.trim());
+        return [parts[0], Number(parts[1])];
+    }));
+}
+
+let options: CohortOptions = {
+    gradeName: yargs.argv.grade === undefined ? defaults.gradeName : String(yargs.argv.grade),
+    studentAmount: getNumber('students', defaults.studentAmount),
+    genderMix: getGenderMix(defaults.genderMix),
+    pickAmount: getNumber('picks', defaults.pickAmount),
+    clusterSize: getNumber('clusterSize', defaults.clusterSize),
+    clustering: getNumber('clustering', defaults.clustering),
+    nonResponderRatio: getNumber('nonResponders', defaults.nonResponderRatio),
+    antiPreferenceAmount: getNumber('antiPreferences', defaults.antiPreferenceAmount),
+    softAntiPreferenceRatio: getNumber('softRatio', defaults.softAntiPreferenceRatio),
+    jointUserAmount: getNumber('jointUsers', defaults.jointUserAmount),
+    seed: getNumber('seed', defaults.seed),
+};
+
+let optionsError = cohort.getOptionsError(options);
+
+if (optionsError) {
+    console.error(optionsError);
+    process.exit(1);
+}
+
+let generated = JSON.stringify(cohort.generate(options), null, 4) + '\n';
+
+if (outFilename) {
+    fs.writeFileSync(outFilename, generated);
+    /* eslint-disable-next-line no-console */
+    console.log('Wrote ' + options.studentAmount + ' students of ' + options.gradeName + ' to ' + outFilename + '.');
+} else {
+    process.stdout.write(generated);
+}
@@ -0,0 +1,125 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as gender from './gender';
+import { BalanceConstraint, GroupDefinition, UserDetails, Username } from './types';
+
+/**
+ * Returns the balance constraints that apply to a group, which are the run's
+ * along with any of the group's own.
+ *
+ * @param {Object[]} balanceConstraints The balance constraints of the run.
+ * @param {number} index The index of the group.
+ * @param {Object[]} [definitions] The group definitions, if the groups are
+ * named.
+ * @return {Object[]} The balance constraints for the group.
+ */
+export let getConstraints = function getConstraintsForGroup(
+    balanceConstraints: BalanceConstraint[],
+    index: number,
+    definitions?: GroupDefinition[]
+): BalanceConstraint[] {
+    let definition = definitions && definitions[index];
+
+    if (!definition || !definition.balanceConstraints) {
+        return balanceConstraints;
+    }
+
+    return balanceConstraints.concat(definition.balanceConstraints);
+}
+
+/**
+ * Returns whether a user meets every eligibility rule of a group.
+ *
+ * @param {Object} users The user details object.
+ * @param {string} username The user to check.
+ * @param {number} index The index of the group.
+ * @param {Object[]} [definitions] The group definitions, if the groups are
+ * named.
+ * @return {boolean} Whether or not the user may join the group.
+ */
+export let isEligible = function isUserEligibleForGroup(
+    users: UserDetails,
+    username: Username,
+    index: number,
+    definitions?: GroupDefinition[]
+): boolean {
+    let definition = definitions && definitions[index];
+
+    if (!definition || !definition.eligibility) {
+        return true;
+    }
+
+    return definition.eligibility.every((rule) => {
+        return rule.values.map(String).includes(balance.getAttributeValue(users, username, rule.attribute));
+    });
+}
+
+/**
+ * Returns the name of a group, or its number if the groups aren't named.
+ *
+ * @param {number} index The index of the group.
+ * @param {Object[]} [definitions] The group definitions, if the groups are
+ * named.
+ * @return {string} The name of the group.
+ */
+export let getName = function getNameForGroup(index: number, definitions?: GroupDefinition[]): string {
+    let definition = definitions && definitions[index];
+    return definition ? definition.name : 'Group ' + (index + 1);
+}
+
+/**
+ * Returns the first problem with a set of group definitions, if there is one.
+ *
+ * @param {Object[]} definitions The group definitions to check.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the definitions are valid.
+ */
+export let getError = function getGroupDefinitionError(definitions: GroupDefinition[]): string | undefined {
+    if (!Array.isArray(definitions) || definitions.length === 0) {
+        return 'Group definitions must be an array of at least one group.';
+    }
+
+    let isWholeNumber = (value: any): boolean => typeof value === 'number' && value >= 0 && value % 1 === 0;
+
+    for (let definition of definitions) {
+        if (!definition || !definition.name) {
+            return 'Every group needs a name.';
+        }
+
+        if (definitions.filter((other) => other.name === definition.name).length > 1) {
+            return 'There is more than one group named ' + definition.name + '.';
+        }
+
+        if (!isWholeNumber(definition.capacity) || definition.capacity < 1) {
+            return 'The capacity of ' + definition.name + ' must be a whole number of at least 1.';
+        }
+
+        if (definition.genderCapacities !== undefined && (typeof definition.genderCapacities !== 'object' || !definition.genderCapacities)) {
+            return 'The gender capacities of ' + definition.name + ' must map genders to capacities.';
+        }
+
+        for (let genderCapacity of [definition.maleCapacity, definition.femaleCapacity].concat(_.values(definition.genderCapacities || {}))) {
+            if (genderCapacity !== undefined && !isWholeNumber(genderCapacity)) {
+                return 'The gender capacities of ' + definition.name + ' must be whole numbers.';
+            }
+        }
+
+        if (definition.gender !== undefined && (typeof definition.gender !== 'string' || !gender.parse(definition.gender))) {
+            return 'The gender of ' + definition.name + ' must be a gender, e.g., female.';
+        }
+
+        for (let rule of definition.eligibility || []) {
+            if (!rule || typeof rule.attribute !== 'string' || !Array.isArray(rule.values)) {
+                return 'Every eligibility rule of ' + definition.name + ' needs an attribute and a list of values.';
+            }
+        }
+
+        let constraintError = balance.getConstraintError(definition.balanceConstraints || []);
+
+        if (constraintError) {
+            return definition.name + ': ' + constraintError;
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,53 @@
+import * as _ from 'lodash';
+import * as dataSource from './data-source';
+import * as yargs from 'yargs';
+import { getPercent } from './statistics';
+import { GroupingRecords } from './types';
+
+let gradeName = yargs.argv.grade as string;
+let dataFilename = yargs.argv.data as string | undefined;
+let runToPublish = yargs.argv.publish as string | undefined;
+
+let source = dataSource.create(dataFilename);
+
+/**
+ * Logs every saved run of a grade, oldest first, so that reruns can be
+ * compared before one is published.
+ *
+ * @param {Object} records The saved runs, keyed by run ID.
+ */
+let list = function listGroupings(records: GroupingRecords): void {
+    let runIDs = _.sortBy(Object.keys(records), (runID) => records[runID].createdAt);
+
+    /* eslint-disable no-console */
+    if (runIDs.length === 0) {
+        console.log('There are no saved runs for ' + gradeName + '.');
+        return;
+    }
+
+    for (let runID of runIDs) {
+        let record = records[runID];
+        let statistics = record.statistics;
+
+        console.log([
+            runID,
+            record.createdAt,
+            record.status,
+            'sizes ' + record.parameters.groupSizes.join('-'),
+            'min friends ' + statistics.minFriends + ' (' + statistics.minFriendsUsernames.length + ')',
+            'avg favorability ' + getPercent(statistics.avgPercentFavorability),
+            'min favorability ' + getPercent(statistics.minPercentFavorability),
+            record.score ? record.score.strategy + ' score ' + record.score.score.join(', ') : '',
+        ].join('  '));
+    }
+    /* eslint-enable no-console */
+}
+
+let publishPromise = runToPublish ? source.publishGrouping(gradeName, runToPublish) : Promise.resolve();
+
+publishPromise.then(() => {
+    return source.getGroupings(gradeName);
+}).then(list).catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+});
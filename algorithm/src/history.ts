@@ -0,0 +1,86 @@
+import * as _ from 'lodash';
+import { Group, GroupingRecords, PairHistory, Username } from './types';
+
+/**
+ * Returns how many times each pair of users shared a group in a set of past
+ * groupings.
+ *
+ * @param {string[][][]} groupings The past groupings, each a list of groups.
+ * @return {Object} The number of times each pair was together, keyed by both
+ * usernames in both orders.
+ */
+export let getHistory = function getPairHistory(groupings: Group[][]): PairHistory {
+    let history: PairHistory = {};
+
+    for (let groups of groupings) {
+        for (let group of groups) {
+            for (let username of group) {
+                for (let other of group) {
+                    if (other !== username) {
+                        history[username] = history[username] || {};
+                        history[username][other] = (history[username][other] || 0) + 1;
+                    }
+                }
+            }
+        }
+    }
+
+    return history;
+}
+
+/**
+ * Returns how many members of a group a user has shared a group with before.
+ *
+ * @param {Object} history The pair history.
+ * @param {string[]} group The list of usernames.
+ * @param {string} username The user to check.
+ * @return {number} The number of past groupmates in the group.
+ */
+export let getRepeatCount = function getRepeatCountForUser(history: PairHistory, group: Group, username: Username): number {
+    let pastGroupmates = history[username];
+
+    if (!pastGroupmates) {
+        return 0;
+    }
+
+    return group.filter((member) => member !== username && !!pastGroupmates[member]).length;
+}
+
+/**
+ * Returns the number of pairs in a set of groups who have shared a group
+ * before. Each pair is counted once, however many times they were together.
+ *
+ * @param {string[][]} groups The groups to check.
+ * @param {Object} history The pair history.
+ * @return {number} The number of repeat pairs.
+ */
+export let getRepeatPairCount = function getRepeatPairCountForGroups(groups: Group[], history: PairHistory): number {
+    return _.sum(groups.map((group) => _.sum(group.map((username) => getRepeatCount(history, group, username))) / 2));
+}
+
+/**
+ * Returns the groups of a past grade's run. A source is either a grade name,
+ * which uses its published run, or `grade:runID` for a specific saved run.
+ *
+ * @param {string} historySource The grade name, optionally with a run ID.
+ * @param {Object} records The saved runs of the grade.
+ * @return {string[][]} The groups of the run.
+ */
+export let getPastGroups = function getPastGroupsForSource(historySource: string, records: GroupingRecords): Group[] {
+    let gradeName = historySource.split(':')[0];
+    let runID: string | undefined = historySource.split(':')[1];
+
+    if (runID === undefined) {
+        runID = _.findKey(records, (record) => record.status === 'published');
+
+        if (runID === undefined) {
+            throw new Error(gradeName + ' has no published run to use as history. Give a run with ' + gradeName + ':<run ID>.');
+        }
+    }
+
+    if (!records[runID]) {
+        throw new Error(runID + ' is not a saved run of ' + gradeName + '.');
+    }
+
+    return records[runID].groups;
+}
@@ -0,0 +1,494 @@
+import * as antiPreferences from './anti-preferences';
+import * as attendance from './attendance';
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as dataSource from './data-source';
+import * as groupDefinitions from './group-definitions';
+import * as history from './history';
+import * as fs from 'fs';
+import * as gender from './gender';
+import * as objective from './objective';
+import * as path from 'path';
+import * as pins from './pins';
+import { Attendance } from './attendance';
+import { EXPORT_FORMATS, ExportFormat, getFormatForFilename } from './export';
+import {
+    AntiPreference,
+    BalanceConstraint,
+    DataSource,
+    GenderConfig,
+    GroupDefinition,
+    GroupingInput,
+    GroupingRecord,
+    ObjectiveConfig,
+    PinEntries,
+    Pins,
+    StudentNames,
+    UserDetails,
+} from './types';
+
+// Only the best run is kept in memory, so this limits running time rather
+// than memory.
+export const MAX_RUN_POWER = 8;
+
+/**
+ * How a grade should be loaded. Anything given here replaces what is on the
+ * grade document.
+ */
+export interface InputOptions {
+    // The group sizes. Without them, the named groups are used, and otherwise
+    // the group sizes of the previous run.
+    groupSizes?: number[];
+    groupDefinitions?: GroupDefinition[];
+    balanceConstraints?: BalanceConstraint[];
+    pins?: PinEntries;
+    rankWeights?: number[];
+    // The past runs to use as history, as grade names or `grade:runID`.
+    historySources?: string[];
+    // The saved run to regroup from, or `published` for whichever run is
+    // currently published.
+    previousRunID?: string;
+    // Whether to leave out the students' names, so that usernames are shown.
+    useUsernames?: boolean;
+}
+
+/**
+ * The command-line arguments shared by every command that groups grades.
+ */
+export interface RunArguments {
+    // The algorithm is run 10 to this power times.
+    runPower?: number;
+    runAmount: number;
+    // The most time to spend on runs, in seconds.
+    timeLimitSeconds?: number;
+    patience?: number;
+    seed?: number;
+    workerAmount?: number;
+    shouldOptimize: boolean;
+    useUsernames: boolean;
+    shouldSave: boolean;
+    // The rank weights as given, and as parsed.
+    rankWeightsArgument?: string | number;
+    rankWeights?: number[];
+    objective: ObjectiveConfig;
+    gender: GenderConfig;
+    // Whether `--genderPolicy` or `--ignoreGender` was given, rather than the
+    // default policy being used.
+    hasGenderArgument: boolean;
+    outFilename?: string;
+    exportFormat?: ExportFormat;
+}
+
+/**
+ * A grade that is ready to be grouped.
+ */
+export interface LoadedGrade {
+    gradeName: string;
+    input: GroupingInput;
+    studentNames: StudentNames;
+    attendance: Attendance;
+    // The saved run to regroup from, if one was given.
+    previousRecord?: GroupingRecord;
+}
+
+/**
+ * Returns an ordered array of descending group sizes.
+ *
+ * @param {string} argument The dash-separated argument to parse, e.g.,
+ * `12-12-11`.
+ * @return {number[]} The array of group sizes.
+ */
+export let getGroupSizes = function getGroupSizesForArgument(argument: string): number[] {
+    return argument.split('-').map(size => parseInt(size)).sort((a, b) => b - a);
+}
+
+/**
+ * Returns whether a list of group sizes can be used: there is at least one
+ * group, and every size is a whole number of at least 1.
+ *
+ * @param {number[]} groupSizes The group sizes.
+ * @return {boolean} Whether or not the group sizes are valid.
+ */
+export let isValidGroupSizes = function checkGroupSizesAreValid(groupSizes: number[]): boolean {
+    return groupSizes.length > 0 && groupSizes.every((size) => typeof size === 'number' && size >= 1 && size % 1 === 0);
+}
+
+/**
+ * Returns the weight of each preference position, from first choice to last.
+ *
+ * @param {string} argument The dash-separated argument to parse, e.g.,
+ * `4-3-2-1`.
+ * @return {number[]} The array of weights.
+ */
+export let getRankWeights = function getRankWeightsForArgument(argument: string): number[] {
+    return argument.split('-').map(weight => parseFloat(weight));
+}
+
+/**
+ * Returns whether a list of rank weights can be used: every weight is a
+ * non-negative number, and at least one is positive.
+ *
+ * @param {number[]} rankWeights The rank weights.
+ * @return {boolean} Whether or not the rank weights are valid.
+ */
+export let isValidRankWeights = function checkRankWeightsAreValid(rankWeights: number[]): boolean {
+    return !rankWeights.some((weight) => isNaN(weight) || weight < 0) && rankWeights.some((weight) => weight > 0);
+}
+
+/**
+ * Returns an objective config from command-line arguments. The objective is
+ * either a strategy name or the path of a JSON config file, and giving weights
+ * on their own selects the weighted strategy.
+ *
+ * @param {string} [objectiveArgument] The strategy name or config file path.
+ * @param {string} [weightsArgument] The comma-separated term weights.
+ * @return {Object} The objective config.
+ */
+export let getObjectiveConfig = function getObjectiveConfigFromArguments(objectiveArgument?: string, weightsArgument?: string): ObjectiveConfig {
+    if (objectiveArgument && path.extname(objectiveArgument).toLowerCase() === '.json') {
+        return JSON.parse(fs.readFileSync(objectiveArgument, 'utf-8'));
+    }
+
+    if (weightsArgument) {
+        return {
+            strategy: objectiveArgument || objective.WEIGHTED_STRATEGY,
+            weights: objective.parseWeights(weightsArgument),
+        };
+    }
+
+    return { strategy: objectiveArgument || objective.DEFAULT_STRATEGY };
+}
+
+/**
+ * Returns a gender policy from command-line arguments. The mapping is either
+ * the path of a JSON file or comma-separated pairs, e.g.,
+ * `nonbinary=female,jsmith=male`. `--ignoreGender true` is kept as another way
+ * of choosing the ignore policy.
+ *
+ * @param {string} [policyArgument] The policy name.
+ * @param {string} [mappingArgument] The mapping file path or pairs.
+ * @param {string} [ignoreGenderArgument] The older `--ignoreGender` flag.
+ * @return {Object} The gender policy.
+ */
+export let getGenderConfig = function getGenderConfigFromArguments(
+    policyArgument?: string,
+    mappingArgument?: string,
+    ignoreGenderArgument?: string
+): GenderConfig {
+    let policy = policyArgument || (ignoreGenderArgument === 'true' ? 'ignore' : gender.DEFAULT_POLICY);
+
+    if (!mappingArgument) {
+        return { policy };
+    }
+
+    if (path.extname(mappingArgument).toLowerCase() === '.json') {
+        return { policy, mapping: JSON.parse(fs.readFileSync(mappingArgument, 'utf-8')) };
+    }
+
+    return {
+        policy,
+        mapping: _.fromPairs(mappingArgument.split(',').map((pair) => pair.split('=').map((part) => part.trim()))),
+    };
+}
+
+/**
+ * Reads the command-line arguments shared by every command that groups
+ * grades. Runs with a time limit or patience keep going until they're
+ * stopped, unless the number of runs is also given.
+ *
+ * @param {Object} argv The parsed command-line arguments.
+ * @return {Object} The run arguments, which should be checked with
+ * `getRunArgumentError`.
+ */
+export let getRunArguments = function getRunArgumentsFromCommandLine(argv: { [argument: string]: any }): RunArguments {
+    let runPower = argv.power as number | undefined;
+    let timeLimitSeconds = argv.timeLimit as number | undefined;
+    let patience = argv.patience as number | undefined;
+    let rankWeightsArgument = argv.rankWeights as string | number | undefined;
+    let outFilename = argv.out as string | undefined;
+
+    if (runPower === undefined && (timeLimitSeconds !== undefined || patience !== undefined)) {
+        runPower = MAX_RUN_POWER;
+    }
+
+    return {
+        runPower,
+        runAmount: Math.floor(Math.pow(10, runPower as number)),
+        timeLimitSeconds,
+        patience,
+        seed: argv.seed as number | undefined,
+        workerAmount: argv.workers as number | undefined,
+        shouldOptimize: argv.optimize === true || argv.optimize === 'true',
+        useUsernames: argv.useUsernames === 'true',
+        shouldSave: argv.save === true || argv.save === 'true',
+        rankWeightsArgument,
+        rankWeights: rankWeightsArgument === undefined ? undefined : getRankWeights(String(rankWeightsArgument)),
+        objective: getObjectiveConfig(argv.objective as string | undefined, argv.weights as string | undefined),
+        gender: getGenderConfig(argv.genderPolicy as string | undefined, argv.genderMapping as string | undefined,
+            argv.ignoreGender as string | undefined),
+        hasGenderArgument: argv.genderPolicy !== undefined || argv.ignoreGender !== undefined,
+        outFilename,
+        exportFormat: (argv.format || (outFilename && getFormatForFilename(outFilename))) as ExportFormat | undefined,
+    };
+}
+
+/**
+ * Returns the first problem with the shared command-line arguments, if there
+ * is one.
+ *
+ * @param {Object} runArguments The run arguments to check.
+ * @param {boolean} [makesRuns] Whether or not the algorithm will be run, so
+ * that it needs to know how many runs to make. Regrouping doesn't.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the arguments are valid.
+ */
+export let getRunArgumentError = function getRunArgumentsError(runArguments: RunArguments, makesRuns = true): string | undefined {
+    let { runPower, timeLimitSeconds, patience, seed, workerAmount, outFilename, exportFormat } = runArguments;
+
+    if (makesRuns && runPower === undefined) {
+        return '--power, --timeLimit, or --patience is required, e.g., --power 4 for 10,000 runs.';
+    }
+
+    if (runPower !== undefined && !(typeof runPower === 'number' && runPower >= 0)) {
+        return runPower + ' is not a valid run power.';
+    }
+
+    if (runPower !== undefined && runPower > MAX_RUN_POWER) {
+        return runPower + ' is not a valid run power. The maximum value is ' + MAX_RUN_POWER + '.';
+    }
+
+    if (timeLimitSeconds !== undefined && !(typeof timeLimitSeconds === 'number' && timeLimitSeconds > 0)) {
+        return '--timeLimit must be a positive number of seconds.';
+    }
+
+    if (patience !== undefined && (typeof patience !== 'number' || patience < 1 || patience % 1 !== 0)) {
+        return '--patience must be a whole number of runs of at least 1.';
+    }
+
+    if (seed !== undefined && (typeof seed !== 'number' || seed < 0 || seed % 1 !== 0)) {
+        return seed + ' is not a valid seed. Seeds must be whole numbers.';
+    }
+
+    if (workerAmount !== undefined && (typeof workerAmount !== 'number' || workerAmount < 1 || workerAmount % 1 !== 0)) {
+        return workerAmount + ' is not a valid number of workers.';
+    }
+
+    let configError = objective.getConfigError(runArguments.objective) || gender.getConfigError(runArguments.gender);
+
+    if (configError) {
+        return configError;
+    }
+
+    if (outFilename && !exportFormat) {
+        return 'Could not tell the format of ' + outFilename + '. Use --format with one of ' + EXPORT_FORMATS.join(', ') + '.';
+    }
+
+    if (exportFormat && !EXPORT_FORMATS.includes(exportFormat)) {
+        return exportFormat + ' is not a valid format. The formats are ' + EXPORT_FORMATS.join(', ') + '.';
+    }
+
+    if (runArguments.rankWeights && !isValidRankWeights(runArguments.rankWeights)) {
+        return runArguments.rankWeightsArgument + ' is not a valid list of rank weights. Use positive numbers, e.g., 4-3-2-1.';
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks that every user in the together-links is in the grade.
+ *
+ * @param {string} gradeName The name of the grade.
+ * @param {string[]} togetherWith The array of hyphenated combinations of users
+ * who must be in the same group.
+ * @param {Object} users The user details object.
+ */
+let checkTogetherWith = function checkTogetherWithUsers(gradeName: string, togetherWith: string[], users: UserDetails): void {
+    for (let combination of togetherWith) {
+        for (let username of combination.split('__')) {
+            if (!users[username]) {
+                throw new Error(username + ' is linked together in ' + combination + ' but is not in ' + gradeName + '.');
+            }
+        }
+    }
+}
+
+/**
+ * Loads a grade from a data source and builds its grouping input, checking
+ * the group definitions, balance constraints, anti-preferences, and pins
+ * along the way.
+ *
+ * @param {Object} source The data source to read from.
+ * @param {string} gradeName The name of the grade.
+ * @param {Object} options How the grade should be loaded.
+ * @return {Promise<Object>} A promise of the loaded grade.
+ */
+export let load = function loadGrade(source: DataSource, gradeName: string, options: InputOptions): Promise<LoadedGrade> {
+    let previousRunID = options.previousRunID;
+    let gradePromise = source.getGrade(gradeName);
+
+    // `published` refers to whichever run is currently published.
+    let previousRecordPromise = (previousRunID ? source.getGroupings(gradeName).then((records) => {
+        let runID = previousRunID === 'published' ? _.findKey(records, (record) => record.status === 'published') : previousRunID;
+
+        if (!runID || !records[runID]) {
+            throw new Error('There is no ' + (previousRunID === 'published' ? 'published run' : 'run ' + previousRunID) + ' for ' +
+                gradeName + '.');
+        }
+
+        return records[runID];
+    }) : Promise.resolve(undefined)) as Promise<GroupingRecord | undefined>;
+
+    // Named groups come from the options, or otherwise the previous run or
+    // the grade document, unless group sizes are given instead.
+    let groupDefinitionsPromise = Promise.all([gradePromise, previousRecordPromise]).then((results) => {
+        let definitions = options.groupDefinitions;
+
+        if (!definitions && !options.groupSizes) {
+            definitions = results[1] ? results[1].parameters.groupDefinitions : results[0].groupDefinitions;
+        }
+
+        let definitionError = definitions && groupDefinitions.getError(definitions);
+
+        if (definitionError) {
+            throw new Error(definitionError);
+        }
+
+        return definitions;
+    }) as Promise<GroupDefinition[] | undefined>;
+
+    // Named groups keep their order, and their capacities are the group
+    // sizes. When regrouping, the group sizes default to those of the
+    // previous run.
+    let groupSizesPromise = Promise.all([previousRecordPromise, groupDefinitionsPromise]).then((results) => {
+        let previousRecord = results[0];
+        let groupSizes: number[];
+
+        if (results[1]) {
+            groupSizes = results[1].map((definition) => definition.capacity);
+        } else if (options.groupSizes) {
+            groupSizes = options.groupSizes;
+        } else if (previousRecord) {
+            groupSizes = previousRecord.parameters.groupSizes;
+        } else {
+            throw new Error('Give the group sizes of ' + gradeName + ', e.g., 12-12-11, or its named groups.');
+        }
+
+        if (!isValidGroupSizes(groupSizes)) {
+            throw new Error('The group sizes of ' + gradeName + ' must be whole numbers of at least 1, e.g., 12-12-11.');
+        }
+
+        if (previousRecord && groupSizes.length !== previousRecord.groups.length) {
+            throw new Error('There must be ' + previousRecord.groups.length + ' groups, one for each group of run ' +
+                previousRunID + '.');
+        }
+
+        return groupSizes;
+    }) as Promise<number[]>;
+
+    let balanceConstraintsPromise = gradePromise.then((grade) => {
+        let constraints = options.balanceConstraints || grade.balanceConstraints || [];
+        let balanceError = balance.getConstraintError(constraints);
+
+        if (balanceError) {
+            throw new Error(balanceError);
+        }
+
+        return constraints;
+    }) as Promise<BalanceConstraint[]>;
+
+    let studentNamesPromise = gradePromise.then((grade) => {
+        if (options.useUsernames) {
+            return {};
+        }
+
+        return grade.students || {};
+    }) as Promise<StudentNames>;
+
+    let allUsersPromise = source.getUsers(gradeName);
+
+    // Students who aren't going are left out entirely, along with any picks
+    // of them.
+    let attendancePromise = allUsersPromise.then(attendance.get);
+
+    let togetherWithPromise = Promise.all([gradePromise, attendancePromise]).then((results) => {
+        return attendance.filterTogetherWith(results[0].togetherWith || [], results[1]);
+    }) as Promise<string[]>;
+
+    // Older `a__b` anti-preferences are converted into hard anti-preferences.
+    let antiPreferencesPromise = Promise.all([gradePromise, allUsersPromise, attendancePromise]).then((results) => {
+        let parsed = attendance.filterAntiPreferences(antiPreferences.parse(results[0].antiPreferences || [], results[1]), results[2]);
+        let antiPreferenceErrors = antiPreferences.getErrors(parsed, results[2].users);
+
+        if (antiPreferenceErrors.length > 0) {
+            throw new Error(antiPreferenceErrors.join('\n'));
+        }
+
+        return parsed;
+    }) as Promise<AntiPreference[]>;
+
+    // Past groupings are read from the saved runs of other grades, e.g., the
+    // same students' trips in earlier years.
+    let historySources = options.historySources;
+    let historyPromise = historySources ? Promise.all(historySources.map((historySource) => {
+        return source.getGroupings(historySource.split(':')[0]).then((records) => history.getPastGroups(historySource, records));
+    })).then(history.getHistory) : Promise.resolve(undefined);
+
+    let pinsPromise = Promise.all([
+        gradePromise,
+        attendancePromise,
+        togetherWithPromise,
+        groupSizesPromise,
+        groupDefinitionsPromise,
+    ]).then((results) => {
+        let grade = results[0];
+        let entries = attendance.filterPins(options.pins || grade.pins || {}, results[1]);
+        let groupAmount = results[3].length;
+        let definitions = results[4];
+        let groupNames = definitions ? definitions.map((definition) => definition.name) : grade.groupNames || [];
+        let pinErrors = pins.getErrors(entries, results[1].users, groupAmount, groupNames, results[2]);
+
+        if (pinErrors.length > 0) {
+            throw new Error(pinErrors.join('\n'));
+        }
+
+        return pins.resolve(entries, groupAmount, groupNames);
+    }) as Promise<Pins>;
+
+    let inputPromise = Promise.all([
+        attendancePromise,
+        antiPreferencesPromise,
+        balanceConstraintsPromise,
+        togetherWithPromise,
+        pinsPromise,
+        groupSizesPromise,
+        groupDefinitionsPromise,
+        historyPromise,
+    ]).then((results) => {
+        let users = results[0].users;
+
+        checkTogetherWith(gradeName, results[3], users);
+
+        return {
+            preferences: dataSource.getPreferences(users),
+            users,
+            antiPreferences: results[1],
+            togetherWith: results[3],
+            groupSizes: results[5],
+            groupDefinitions: results[6],
+            rankWeights: options.rankWeights,
+            balanceConstraints: results[2],
+            pins: results[4],
+            history: results[7],
+        };
+    }) as Promise<GroupingInput>;
+
+    return Promise.all([inputPromise, studentNamesPromise, attendancePromise, previousRecordPromise]).then((results) => {
+        return {
+            gradeName,
+            input: results[0],
+            studentNames: results[1],
+            attendance: results[2],
+            previousRecord: results[3],
+        };
+    });
+}
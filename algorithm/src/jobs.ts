@@ -0,0 +1,375 @@
+import * as engine from './engine';
+import * as gender from './gender';
+import * as input from './input';
+import * as objective from './objective';
+import * as plan from './plan';
+import { BalanceConstraint, DataSource, GenderConfig, GroupDefinition, GroupingResult, ObjectiveConfig, PinEntries, StopReason, StopSignal, StudentNames } from './types';
+
+const DEFAULT_RUN_POWER = 3;
+// Finished jobs are kept so that their results can be fetched, up to this
+// many, after which the oldest are forgotten.
+const MAX_FINISHED_JOBS = 100;
+// Progress events are sent at most this often, in milliseconds, however
+// often runs finish.
+const PROGRESS_EVENT_INTERVAL = 250;
+
+/**
+ * What a job should group, and how. The group settings are the same as those
+ * of a batch plan entry, except that they must be given directly rather than
+ * as files.
+ */
+export interface JobRequest {
+    grade: string;
+    sizes?: string | number[];
+    groups?: GroupDefinition[];
+    balance?: BalanceConstraint[];
+    pins?: PinEntries;
+    history?: string[];
+    gender?: GenderConfig;
+    // Whether gender should be ignored, from before there were gender
+    // policies.
+    ignoreGender?: boolean;
+    rankWeights?: number[];
+    // The algorithm is run 10 to this power times, or until it is stopped by
+    // the time limit or patience if they are given without a power.
+    power?: number;
+    // The most time to spend on runs, in seconds.
+    timeLimit?: number;
+    // Stops once the best run hasn't improved for this many runs.
+    patience?: number;
+    seed?: number;
+    workers?: number;
+    optimize?: boolean;
+    objective?: ObjectiveConfig;
+    useUsernames?: boolean;
+}
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+export interface Job {
+    id: string;
+    request: JobRequest;
+    status: JobStatus;
+    // The most runs that will be made.
+    runAmount: number;
+    // The number of runs that have finished.
+    runCount: number;
+    // Why the runs stopped before reaching the run amount, if they did.
+    stopReason?: StopReason;
+    createdAt: string;
+    finishedAt?: string;
+    error?: string;
+    result?: GroupingResult;
+    studentNames?: StudentNames;
+}
+
+export type JobEvent = { type: 'progress'; runCount: number; runAmount: number } |
+    { type: 'status'; status: JobStatus; error?: string }
+
+/**
+ * Runs grouping jobs one at a time, in the order they were started.
+ */
+export interface JobQueue {
+    /**
+     * Adds a job to the queue, and returns it.
+     */
+    start(request: JobRequest): Job;
+
+    /**
+     * Returns a job, or `undefined` if there is no job with the ID.
+     */
+    get(jobID: string): Job | undefined;
+
+    /**
+     * Returns every job that is queued, running, or recently finished, oldest
+     * first.
+     */
+    list(): Job[];
+
+    /**
+     * Cancels a queued or running job. A running job stops after the runs it
+     * has already started. Returns whether or not the job could be cancelled.
+     */
+    cancel(jobID: string): boolean;
+
+    /**
+     * Calls a listener with every event of a job until the returned function
+     * is called.
+     */
+    subscribe(jobID: string, listener: (event: JobEvent) => void): () => void;
+}
+
+/**
+ * Returns the power of 10 of the most runs a job will make.
+ *
+ * @param {Object} request The job request.
+ * @return {number} The run power.
+ */
+let getRunPower = function getRunPowerForRequest(request: JobRequest): number {
+    if (request.power !== undefined) {
+        return request.power;
+    }
+
+    // Runs with a time limit or patience keep going until they're stopped.
+    return request.timeLimit !== undefined || request.patience !== undefined ? input.MAX_RUN_POWER : DEFAULT_RUN_POWER;
+}
+
+/**
+ * Returns whether a job has finished, whether or not it succeeded.
+ *
+ * @param {Object} job The job.
+ * @return {boolean} Whether or not the job has finished.
+ */
+export let isFinished = function isJobFinished(job: Job): boolean {
+    return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Returns the first problem with a job request, if there is one.
+ *
+ * @param {Object} request The job request to check.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the request is valid.
+ */
+export let getRequestError = function getJobRequestError(request: JobRequest): string | undefined {
+    let isWholeNumber = (value: any): boolean => typeof value === 'number' && value >= 0 && value % 1 === 0;
+
+    if (!request || typeof request.grade !== 'string' || !request.grade) {
+        return 'A job needs a grade ID.';
+    }
+
+    if (request.sizes !== undefined && request.groups !== undefined) {
+        return 'A job has both sizes and groups. Use one or the other.';
+    }
+
+    if (request.sizes !== undefined && !input.isValidGroupSizes(plan.getGroupSizes({ grade: request.grade, sizes: request.sizes })!)) {
+        return 'sizes must be whole numbers of at least 1, e.g., "12-12-11" or [12, 12, 11].';
+    }
+
+    for (let key of ['groups', 'balance', 'pins'] as (keyof JobRequest)[]) {
+        if (request[key] !== undefined && typeof request[key] !== 'object') {
+            return key + ' must be given directly, rather than as a file.';
+        }
+    }
+
+    if (request.history !== undefined && !Array.isArray(request.history)) {
+        return 'history must be a list of grades.';
+    }
+
+    if (request.power !== undefined && (!isWholeNumber(request.power) || request.power > input.MAX_RUN_POWER)) {
+        return 'power must be a whole number up to ' + input.MAX_RUN_POWER + '.';
+    }
+
+    if (request.timeLimit !== undefined && !(typeof request.timeLimit === 'number' && request.timeLimit > 0)) {
+        return 'timeLimit must be a positive number of seconds.';
+    }
+
+    if (request.patience !== undefined && (!isWholeNumber(request.patience) || request.patience < 1)) {
+        return 'patience must be a whole number of at least 1.';
+    }
+
+    if (request.seed !== undefined && !isWholeNumber(request.seed)) {
+        return 'seed must be a whole number.';
+    }
+
+    if (request.workers !== undefined && (!isWholeNumber(request.workers) || request.workers < 1)) {
+        return 'workers must be a whole number of at least 1.';
+    }
+
+    if (request.rankWeights !== undefined && (!Array.isArray(request.rankWeights) || !input.isValidRankWeights(request.rankWeights))) {
+        return 'rankWeights must be a list of positive numbers, e.g., [4, 3, 2, 1].';
+    }
+
+    if (request.gender !== undefined) {
+        let genderError = gender.getConfigError(request.gender);
+
+        if (genderError) {
+            return genderError;
+        }
+    }
+
+    return request.objective === undefined ? undefined : objective.getConfigError(request.objective);
+}
+
+/**
+ * Creates a queue of grouping jobs that read from a data source. Jobs are kept
+ * in memory, so they are lost when the process exits.
+ *
+ * @param {Object} source The data source to read grades from.
+ * @return {Object} The job queue.
+ */
+export let createQueue = function createJobQueue(source: DataSource): JobQueue {
+    let jobs: Job[] = [];
+    let waitingIDs: string[] = [];
+    let listeners: { [jobID: string]: ((event: JobEvent) => void)[] } = {};
+    let stopSignals: { [jobID: string]: StopSignal } = {};
+    let isRunning = false;
+    let jobCount = 0;
+
+    let get = (jobID: string): Job | undefined => jobs.filter((job) => job.id === jobID)[0];
+
+    let emit = (job: Job, event: JobEvent): void => {
+        for (let listener of (listeners[job.id] || []).slice()) {
+            listener(event);
+        }
+    };
+
+    let setStatus = (job: Job, status: JobStatus, error?: string): void => {
+        job.status = status;
+        job.error = error;
+
+        if (isFinished(job)) {
+            job.finishedAt = new Date().toISOString();
+        }
+
+        emit(job, { type: 'status', status, error });
+    };
+
+    // Forgets the oldest finished jobs once there are too many.
+    let prune = (): void => {
+        let finishedJobs = jobs.filter(isFinished);
+
+        for (let job of finishedJobs.slice(0, Math.max(0, finishedJobs.length - MAX_FINISHED_JOBS))) {
+            jobs.splice(jobs.indexOf(job), 1);
+            delete listeners[job.id];
+        }
+    };
+
+    let run = (job: Job): Promise<void> => {
+        let request = job.request;
+        let stopSignal = engine.createStopSignal();
+        let lastProgressTime = 0;
+        // Runs stopped by the time limit or patience still give a result.
+        let isCancelled = (): boolean => engine.getStopReason(stopSignal) === 'cancelled';
+
+        stopSignals[job.id] = stopSignal;
+        setStatus(job, 'running');
+
+        // Anything thrown while loading fails the job, rather than the queue.
+        return Promise.resolve().then(() => input.load(source, request.grade, {
+            groupSizes: plan.getGroupSizes({ grade: request.grade, sizes: request.sizes }),
+            groupDefinitions: request.groups,
+            balanceConstraints: request.balance,
+            pins: request.pins,
+            rankWeights: request.rankWeights,
+            historySources: request.history,
+            useUsernames: request.useUsernames,
+        })).then((loaded) => {
+            if (Object.keys(loaded.input.users).length === 0) {
+                throw new Error('There are no students to group in ' + request.grade + '.');
+            }
+
+            job.studentNames = loaded.studentNames;
+
+            return engine.makeGroups(loaded.input, {
+                runAmount: job.runAmount,
+                gender: request.gender || { policy: request.ignoreGender ? 'ignore' : gender.DEFAULT_POLICY },
+                seed: request.seed,
+                workerAmount: request.workers,
+                optimize: request.optimize,
+                objective: request.objective,
+                stopSignal,
+                timeLimit: request.timeLimit === undefined ? undefined : request.timeLimit * 1000,
+                patience: request.patience,
+                isInBackground: true,
+                onProgress: (event) => {
+                    if (event.type === 'finished') {
+                        job.stopReason = event.stopReason;
+                    }
+
+                    if (event.type !== 'runs') {
+                        return;
+                    }
+
+                    job.runCount += event.runCount;
+
+                    if (Date.now() - lastProgressTime >= PROGRESS_EVENT_INTERVAL || job.runCount === job.runAmount) {
+                        lastProgressTime = Date.now();
+                        emit(job, { type: 'progress', runCount: job.runCount, runAmount: job.runAmount });
+                    }
+                },
+            });
+        }).then((result) => {
+            if (isCancelled()) {
+                setStatus(job, 'cancelled');
+                return;
+            }
+
+            job.result = result;
+            setStatus(job, 'done');
+        }, (error: Error) => {
+            setStatus(job, isCancelled() ? 'cancelled' : 'failed', isCancelled() ? undefined : error.message);
+        }).then(() => {
+            delete stopSignals[job.id];
+        });
+    };
+
+    // Jobs run one at a time, since each already uses every worker.
+    let runNext = (): void => {
+        if (isRunning || waitingIDs.length === 0) {
+            return;
+        }
+
+        let job = get(waitingIDs.shift()!)!;
+        isRunning = true;
+
+        run(job).then(() => {
+            isRunning = false;
+            prune();
+            runNext();
+        });
+    };
+
+    return {
+        start: function startJob(request: JobRequest): Job {
+            jobCount++;
+
+            let job: Job = {
+                id: 'job' + jobCount,
+                request,
+                status: 'queued',
+                runAmount: Math.floor(Math.pow(10, getRunPower(request))),
+                runCount: 0,
+                createdAt: new Date().toISOString(),
+            };
+
+            jobs.push(job);
+            waitingIDs.push(job.id);
+            runNext();
+
+            return job;
+        },
+
+        get,
+
+        list: function listJobs(): Job[] {
+            return jobs.slice();
+        },
+
+        cancel: function cancelJob(jobID: string): boolean {
+            let job = get(jobID);
+
+            if (!job || isFinished(job)) {
+                return false;
+            }
+
+            if (job.status === 'queued') {
+                waitingIDs.splice(waitingIDs.indexOf(jobID), 1);
+                setStatus(job, 'cancelled');
+                prune();
+            } else {
+                engine.stop(stopSignals[jobID]);
+            }
+
+            return true;
+        },
+
+        subscribe: function subscribeToJob(jobID: string, listener: (event: JobEvent) => void): () => void {
+            listeners[jobID] = (listeners[jobID] || []).concat([listener]);
+
+            return () => {
+                listeners[jobID] = (listeners[jobID] || []).filter((other) => other !== listener);
+            };
+        },
+    };
+}
@@ -0,0 +1,175 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import { getModel, getRootBound } from './solver';
+import { GenderConfig, GroupingInput } from './types';
+
+// How many terms are written on each line, since some solvers limit the
+// length of a line.
+const TERMS_PER_LINE = 8;
+
+/**
+ * Writes the terms of an expression, breaking it across lines.
+ *
+ * @param {string[]} terms The terms, each with its sign, e.g., `+ 2 x_0_1`.
+ * @return {string} The expression.
+ */
+let getExpression = function getLPExpression(terms: string[]): string {
+    return _.chunk(terms, TERMS_PER_LINE).map((chunk) => chunk.join(' ')).join('\n   ');
+}
+
+/**
+ * Writes a number as a signed coefficient.
+ *
+ * @param {number} value The coefficient.
+ * @return {string} The coefficient with its sign, leaving out a 1.
+ */
+let getCoefficient = function getLPCoefficient(value: number): string {
+    let sign = value < 0 ? '- ' : '+ ';
+    return sign + (Math.abs(value) === 1 ? '' : Math.abs(value) + ' ');
+}
+
+/**
+ * Writes the search for the highest minimum friend count as an integer program
+ * in the CPLEX LP format, which most solvers read, e.g., `cbc model.lp`,
+ * `highs model.lp`, or `glpsol --lp model.lp`. It has the same hard limits as
+ * `solver.solve`.
+ *
+ * Each item (a unit, or a user who isn't in one) has a binary variable
+ * `x_i_g` for each group it may join. `y_u_v_g` is at most 1 when users `u`
+ * and `v` are both in group `g`, and `z`, the objective, is at most the
+ * friend count of every user who listed preferences. The comments at the top
+ * of the file list the members of each item and the username of each user
+ * number.
+ *
+ * @param {Object} input The grouping input.
+ * @param {Object} genderConfig The gender policy.
+ * @return {string} The integer program.
+ */
+export let getLP = function getLinearProgram(input: GroupingInput, genderConfig: GenderConfig): string {
+    let model = getModel(input, genderConfig);
+    let items = model.items;
+    let usernames = Object.keys(model.users);
+    let userNumbers = _.fromPairs(usernames.map((username, index) => [username, index]));
+    let groupIndices = _.range(model.capacities.length);
+    let getX = (itemIndex: number, groupIndex: number): string => 'x_' + itemIndex + '_' + groupIndex;
+    let getGroups = (itemIndex: number): number[] => groupIndices.filter((index) => model.eligibility[itemIndex][index]);
+
+    let lines = ['\\ Highest minimum friend count for ' + usernames.length + ' users in ' + groupIndices.length + ' groups.'];
+
+    items.forEach((item, itemIndex) => lines.push('\\ Item ' + itemIndex + ': ' + item.members.join(', ')));
+    usernames.forEach((username, index) => lines.push('\\ User ' + index + ': ' + username));
+    model.genders.forEach((genderName, index) => lines.push('\\ Gender ' + index + ': ' + genderName));
+
+    lines.push('Maximize', ' friends: z', 'Subject To');
+
+    // Every item is in exactly one group it may join.
+    items.forEach((item, itemIndex) => {
+        let terms = getGroups(itemIndex).map((groupIndex) => '+ ' + getX(itemIndex, groupIndex));
+        lines.push(' item_' + itemIndex + ': ' + (terms.length > 0 ? getExpression(terms) : '0 ' + getX(itemIndex, 0)) + ' = 1');
+    });
+
+    // Every group is within its size and gender capacities. Genders are
+    // named by their number, since they may have any name.
+    let limits: [string, (itemIndex: number) => number, number[]][] = [
+        ['size', (itemIndex) => items[itemIndex].size, model.capacities],
+    ];
+
+    model.genders.forEach((genderName, index) => {
+        limits.push(['gender_' + index, (itemIndex) => items[itemIndex].genderSizes[genderName] || 0, model.genderCapacities[genderName]]);
+    });
+
+    for (let groupIndex of groupIndices) {
+        let groupItems = _.range(items.length).filter((itemIndex) => model.eligibility[itemIndex][groupIndex]);
+
+        for (let limit of limits) {
+            let terms = groupItems.filter((itemIndex) => limit[1](itemIndex) > 0).map((itemIndex) => {
+                return getCoefficient(limit[1](itemIndex)) + getX(itemIndex, groupIndex);
+            });
+
+            if (terms.length > 0 && limit[2][groupIndex] !== Infinity) {
+                lines.push(' ' + limit[0] + '_' + groupIndex + ': ' + getExpression(terms) + ' <= ' + limit[2][groupIndex]);
+            }
+        }
+
+        // Every value a balance maximum limits stays within it.
+        model.constraints[groupIndex].forEach((constraint, constraintIndex) => {
+            if (constraint.max === undefined) {
+                return;
+            }
+
+            let values = constraint.value === undefined ?
+                _.uniq(usernames.map((username) => balance.getAttributeValue(model.users, username, constraint.attribute))) :
+                [String(constraint.value)];
+
+            values.forEach((value, valueIndex) => {
+                let terms = groupItems.map((itemIndex) => {
+                    let group = items[itemIndex].members;
+                    return [itemIndex, balance.getDistribution(group, constraint.attribute, model.users)[value] || 0];
+                }).filter((pair) => pair[1] > 0).map((pair) => getCoefficient(pair[1]) + getX(pair[0], groupIndex));
+
+                if (terms.length > 0) {
+                    lines.push(' balance_' + groupIndex + '_' + constraintIndex + '_' + valueIndex + ': ' +
+                        getExpression(terms) + ' <= ' + constraint.max);
+                }
+            });
+        });
+    }
+
+    // Items with a hard anti-preference are never in the same group.
+    items.forEach((item, itemIndex) => {
+        for (let other of model.conflicts[itemIndex].filter((otherIndex) => otherIndex > itemIndex)) {
+            for (let groupIndex of _.intersection(getGroups(itemIndex), getGroups(other))) {
+                lines.push(' apart_' + itemIndex + '_' + other + '_' + groupIndex + ': ' +
+                    getX(itemIndex, groupIndex) + ' + ' + getX(other, groupIndex) + ' <= 1');
+            }
+        }
+    });
+
+    // The objective is at most every user's friend count. Friends in the
+    // same item are always together, so they are counted as a constant.
+    let pairVariables: string[] = [];
+
+    for (let username in model.picks) {
+        let itemIndex = model.itemIndices[username];
+        let ownFriends = 0;
+        let terms = ['z'];
+
+        for (let pick of model.picks[username]) {
+            let friendIndex = model.itemIndices[pick.friend];
+
+            if (friendIndex === itemIndex) {
+                ownFriends += pick.weight;
+                continue;
+            }
+
+            if (model.conflicts[itemIndex].includes(friendIndex)) {
+                continue;
+            }
+
+            for (let groupIndex of _.intersection(getGroups(itemIndex), getGroups(friendIndex))) {
+                let pair = 'y_' + userNumbers[username] + '_' + userNumbers[pick.friend] + '_' + groupIndex;
+
+                pairVariables.push(pair);
+                terms.push(getCoefficient(-pick.weight) + pair);
+                lines.push(' own_' + pair + ': ' + pair + ' - ' + getX(itemIndex, groupIndex) + ' <= 0');
+                lines.push(' friend_' + pair + ': ' + pair + ' - ' + getX(friendIndex, groupIndex) + ' <= 0');
+            }
+        }
+
+        lines.push(' friends_' + userNumbers[username] + ': ' + getExpression(terms) + ' <= ' + ownFriends);
+    }
+
+    let bound = getRootBound(model);
+    lines.push('Bounds');
+
+    for (let pair of pairVariables) {
+        lines.push(' 0 <= ' + pair + ' <= 1');
+    }
+
+    lines.push(bound === Infinity ? ' 0 <= z <= ' + usernames.length : ' 0 <= z <= ' + bound);
+
+    let binaries = _.flatMap(_.range(items.length), (itemIndex) => getGroups(itemIndex).map((groupIndex) => getX(itemIndex, groupIndex)));
+    lines.push('Binary', ' ' + getExpression(binaries), 'End', '');
+
+    return lines.join('\n');
+}
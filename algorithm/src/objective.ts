@@ -0,0 +1,252 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import { getLookup, getSoftCount } from './anti-preferences';
+import { getAllMultiplier, getMinFriends, getPercentFavorability } from './scoring';
+import { getRepeatPairCount } from './history';
+import { BalanceConstraint, ObjectiveConfig, RunResult, ScoreBreakdown } from './types';
+
+export const DEFAULT_STRATEGY = 'worst-case';
+export const WEIGHTED_STRATEGY = 'weighted';
+
+/**
+ * A single measurement of a run that objectives can be built from.
+ */
+interface Term {
+    higherIsBetter: boolean;
+    getValue(result: RunResult): number;
+}
+
+/**
+ * Returns the balance constraints of a group in a run, including the group's
+ * own.
+ *
+ * @param {Object} result The run result.
+ * @param {number} index The index of the group.
+ * @return {Object[]} The balance constraints for the group.
+ */
+let getGroupConstraints = function getBalanceConstraintsForGroup(result: RunResult, index: number): BalanceConstraint[] {
+    return groupDefinitions.getConstraints(result.details.balanceConstraints || [], index, result.details.groupDefinitions);
+}
+
+/**
+ * Returns the percent favorability of every group in a run.
+ *
+ * @param {Object} result The run result.
+ * @return {number[]} The favorabilities, in group order.
+ */
+let getFavorabilities = function getFavorabilitiesForRun(result: RunResult): number[] {
+    return result.groups.map((group) => getPercentFavorability(group, result.preferences, result.details.rankWeights));
+}
+
+export const TERMS: { [name: string]: Term } = {
+    // The lowest number of friends of any user who listed preferences.
+    minFriends: {
+        higherIsBetter: true,
+        getValue: (result) => getMinFriends(result.groups, result.preferences, result.details.rankWeights).minFriends,
+    },
+    // The number of users who have that lowest number of friends.
+    minFriendsCount: {
+        higherIsBetter: false,
+        getValue: (result) => getMinFriends(result.groups, result.preferences, result.details.rankWeights).usernames.length,
+    },
+    minFavorability: {
+        higherIsBetter: true,
+        getValue: (result) => _.min(getFavorabilities(result))!,
+    },
+    avgFavorability: {
+        higherIsBetter: true,
+        getValue: (result) => _.mean(getFavorabilities(result)),
+    },
+    // The largest difference between two groups' shares of any one gender.
+    genderSpread: {
+        higherIsBetter: false,
+        getValue: (result) => gender.getSpread(gender.getShares(result.groups, gender.getAll(result.users))),
+    },
+    placedPercent: {
+        higherIsBetter: true,
+        getValue: (result) => {
+            let placedCount = _.sum(result.groups.map((group) => getAllMultiplier(group)));
+            return placedCount / getAllMultiplier(Object.keys(result.users));
+        },
+    },
+    // The number of members beyond the hard limits of the balance
+    // constraints, across every group.
+    balanceViolations: {
+        higherIsBetter: false,
+        getValue: (result) => _.sum(result.groups.map((group, i) => {
+            return balance.getViolations(group, getGroupConstraints(result, i), result.users);
+        })),
+    },
+    // The average distance of each group from the soft balance targets.
+    balanceDeviation: {
+        higherIsBetter: false,
+        getValue: (result) => _.mean(result.groups.map((group, i) => {
+            return balance.getDeviation(group, getGroupConstraints(result, i), result.users);
+        })),
+    },
+    // The number of pairs who have shared a group in a past grouping.
+    repeatPairs: {
+        higherIsBetter: false,
+        getValue: (result) => result.details.history ? getRepeatPairCount(result.groups, result.details.history) : 0,
+    },
+    // The number of pairs with a soft anti-preference who share a group.
+    softAntiPreferences: {
+        higherIsBetter: false,
+        getValue: (result) => {
+            let lookup = getLookup(result.details.antiPreferences || []);
+            return _.sum(result.groups.map((group) => getSoftCount(group, lookup)));
+        },
+    },
+};
+
+// Hard balance limits, and then soft anti-preferences, come before every other
+// term, so a run that breaks fewer of them is always better.
+const PENALTY_TERMS = ['balanceViolations', 'softAntiPreferences'];
+
+/**
+ * The built-in strategies. Each compares runs term by term, only looking at a
+ * term when the runs are tied on every term before it.
+ * Repeat pairs from past groupings come right after the min friends terms, so
+ * avoiding them never lowers the min friends. The weighted strategy can trade
+ * them against friends instead.
+ */
+export const STRATEGIES: { [name: string]: string[] } = {
+    'worst-case': PENALTY_TERMS.concat(['minFriends', 'minFriendsCount', 'repeatPairs', 'minFavorability']),
+    'average': PENALTY_TERMS.concat(['avgFavorability', 'minFriends', 'minFriendsCount', 'repeatPairs']),
+    'gender-balance': PENALTY_TERMS.concat(['genderSpread', 'minFriends', 'minFriendsCount', 'repeatPairs', 'minFavorability']),
+    'attribute-balance': PENALTY_TERMS.concat(['balanceDeviation', 'minFriends', 'minFriendsCount', 'repeatPairs', 'minFavorability']),
+};
+
+/**
+ * Returns the value of a term such that lower values are always better.
+ *
+ * @param {string} termName The name of the term.
+ * @param {number} value The value of the term.
+ * @return {number} The value to compare with.
+ */
+let getComparableValue = function getComparableTermValue(termName: string, value: number): number {
+    return TERMS[termName].higherIsBetter ? -value : value;
+}
+
+/**
+ * Checks that an objective config uses known strategies and terms.
+ *
+ * @param {Object} config The objective config to check.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the config is valid.
+ */
+export let getConfigError = function getObjectiveConfigError(config: ObjectiveConfig): string | undefined {
+    if (config.strategy === WEIGHTED_STRATEGY) {
+        let termNames = Object.keys(config.weights || {});
+
+        if (termNames.length === 0) {
+            return 'The weighted strategy needs at least one weight.';
+        }
+
+        for (let termName of termNames) {
+            if (!TERMS[termName]) {
+                return termName + ' is not a valid term. The terms are ' + Object.keys(TERMS).join(', ') + '.';
+            }
+
+            if (typeof config.weights![termName] !== 'number' || isNaN(config.weights![termName])) {
+                return 'The weight of ' + termName + ' must be a number.';
+            }
+        }
+
+        return undefined;
+    }
+
+    if (!STRATEGIES[config.strategy]) {
+        return config.strategy + ' is not a valid strategy. The strategies are ' +
+            Object.keys(STRATEGIES).concat([WEIGHTED_STRATEGY]).join(', ') + '.';
+    }
+
+    return undefined;
+}
+
+/**
+ * Parses weights given on the command line, such as
+ * `minFriends=10,avgFavorability=2`.
+ *
+ * @param {string} argument The command-line argument to parse.
+ * @return {Object} The weights, keyed by term name.
+ */
+export let parseWeights = function parseWeightsArgument(argument: string): { [termName: string]: number } {
+    let weights: { [termName: string]: number } = {};
+
+    for (let pair of argument.split(',')) {
+        let parts = pair.split('=');
+        weights[parts[0].trim()] = parseFloat(parts[1]);
+    }
+
+    return weights;
+}
+
+/**
+ * Scores a run with an objective. The score is an array of values compared
+ * one by one, where lower is better. The weighted strategy produces the number
+ * of hard balance violations and soft anti-preferences followed by a single
+ * value: the sum of each term times its weight, where terms that should be
+ * high are negated.
+ *
+ * @param {Object} result The run to score.
+ * @param {Object} config The objective config.
+ * @return {Object} The score, along with the value of each term that went
+ * into it.
+ */
+export let getScore = function getScoreForRun(result: RunResult, config: ObjectiveConfig): ScoreBreakdown {
+    let terms: { [termName: string]: number } = {};
+
+    if (config.strategy === WEIGHTED_STRATEGY) {
+        let weightedSum = 0;
+
+        for (let termName in config.weights!) {
+            terms[termName] = TERMS[termName].getValue(result);
+            weightedSum += config.weights![termName] * getComparableValue(termName, terms[termName]);
+        }
+
+        for (let termName of PENALTY_TERMS) {
+            if (terms[termName] === undefined) {
+                terms[termName] = TERMS[termName].getValue(result);
+            }
+        }
+
+        return {
+            strategy: config.strategy,
+            terms,
+            score: PENALTY_TERMS.map((termName) => terms[termName]).concat([weightedSum]),
+        };
+    }
+
+    let termNames = STRATEGIES[config.strategy];
+
+    for (let termName of termNames) {
+        terms[termName] = TERMS[termName].getValue(result);
+    }
+
+    return {
+        strategy: config.strategy,
+        terms,
+        score: termNames.map((termName) => getComparableValue(termName, terms[termName])),
+    };
+}
+
+/**
+ * Compares two run scores value by value.
+ *
+ * @param {number[]} a The first score.
+ * @param {number[]} b The second score.
+ * @return {number} A negative number if `a` is better, a positive number if
+ * `b` is better, or 0 if they are equal.
+ */
+export let compareScores = function compareRunScores(a: number[], b: number[]): number {
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+
+    return 0;
+}
@@ -0,0 +1,214 @@
+import * as balance from './balance';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import { canTryJoiningGroup, getUnits, hasMaximum } from './constraints';
+import * as objective from './objective';
+import { getLookup } from './anti-preferences';
+import { getAllMultiplier } from './scoring';
+import { getUpdatedPlacements } from './explanation';
+import { GenderLimits } from './gender';
+import { AntiPreference, Group, RunResult, RunSettings, ScoreBreakdown, UserDetails, Username } from './types';
+
+const MAX_OPTIMIZE_CHANGES = 1000;
+
+export interface OptimizationResult {
+    result: RunResult;
+    score: ScoreBreakdown;
+    moveCount: number;
+    swapCount: number;
+}
+
+/**
+ * Returns whether a group can be changed into a new group without breaking
+ * its size, gender, and balance limits. The fallback pass of `run` may have
+ * already pushed a group over its limits, in which case the change is still
+ * allowed as long as it doesn't make the group any fuller.
+ *
+ * @param {string[]} newGroup The group after the change.
+ * @param {string[]} oldGroup The group before the change.
+ * @param {number} groupID The index of the group.
+ * @param {Object} details The details of the run, including the group sizes,
+ * group definitions, and balance constraints.
+ * @param {Object} limits The gender limits of the groups.
+ * @param {Object} users The user details object.
+ * @return {boolean} Whether or not the change is allowed.
+ */
+let isWithinLimits = function isChangeWithinLimits(
+    newGroup: Group,
+    oldGroup: Group,
+    groupID: number,
+    details: RunResult['details'],
+    limits: GenderLimits,
+    users: UserDetails
+): boolean {
+    let groupSize = details.groupSizes[groupID];
+    let balanceConstraints = groupDefinitions.getConstraints(details.balanceConstraints || [], groupID, details.groupDefinitions);
+    let newDistribution = gender.getDistribution(newGroup, limits.genders);
+    let oldDistribution = gender.getDistribution(oldGroup, limits.genders);
+    let genders = Object.keys({ ...newDistribution, ...oldDistribution });
+
+    if (balance.exceedsMaximum(newGroup, balanceConstraints, users) &&
+        balance.getViolations(newGroup, balanceConstraints, users) > balance.getViolations(oldGroup, balanceConstraints, users)) {
+        return false;
+    }
+
+    if (!limits.isMixed(newGroup, groupID) && genders.every((groupGender) => {
+        return !hasMaximum(newGroup, groupGender, groupSize, limits.getCapacity(groupID, groupGender), limits.genders);
+    })) {
+        return true;
+    }
+
+    return getAllMultiplier(newGroup) <= getAllMultiplier(oldGroup) &&
+        genders.every((groupGender) => (newDistribution[groupGender] || 0) <= (oldDistribution[groupGender] || 0));
+}
+
+/**
+ * Returns a copy of a group without some of its members.
+ *
+ * @param {string[]} group The list of usernames.
+ * @param {string[]} members The usernames to leave out.
+ * @return {string[]} The new list of usernames.
+ */
+let groupWithout = function copyGroupWithoutMembers(group: Group, members: Username[]): Group {
+    return group.filter((username) => !members.includes(username));
+}
+
+/**
+ * Improves a run with a hill-climbing local search. Members are repeatedly
+ * moved to another group, or swapped with a member of another group, whenever
+ * that improves the same objective used to choose the best run. Every change
+ * respects anti-preferences and the size, gender, balance, and eligibility
+ * limits of each group, and users who must be grouped together are moved as a unit. Pinned
+ * users, and the rest of their units, are never moved.
+ *
+ * @param {Object} result The run to improve.
+ * @param {Object[]} antiPreferences The anti-preferences of the grade.
+ * @param {Object} settings The settings of the runs, including the gender
+ * policy and the objective.
+ * @return {Object} The improved run and its score, along with the number of
+ * moves and swaps that were made.
+ */
+export let improve = function improveWithLocalSearch(
+    result: RunResult,
+    antiPreferences: AntiPreference[],
+    settings: RunSettings
+): OptimizationResult {
+    let groups = result.groups.map((group) => group.slice());
+    let details = result.details;
+    let users = result.users;
+    let limits = gender.getLimits(users, details.groupSizes, settings.gender, details.groupDefinitions);
+    let units = getUnits(result.details.togetherWith || []);
+    let pins = result.details.pins || {};
+    let lookup = getLookup(antiPreferences);
+    let score = objective.getScore(result, settings.objective);
+    let moveCount = 0;
+    let swapCount = 0;
+
+    // Returns the users who must be grouped with a user, including themselves.
+    let getUnit = (username: Username): Group => units[username] || [username];
+
+    // Returns whether anyone in a unit is pinned to a group.
+    let isPinned = (unit: Group): boolean => unit.some((member) => pins[member] !== undefined);
+
+    // Returns whether no-one in a group has an anti-preference against any
+    // member of a unit, and every member of the unit is eligible for the
+    // group.
+    let canJoin = (group: Group, groupID: number, unit: Group): boolean => {
+        return unit.every((member) => {
+            return canTryJoiningGroup(lookup, group, member) && groupDefinitions.isEligible(users, member, groupID, details.groupDefinitions);
+        });
+    };
+
+    // Applies a change to two groups if it improves the score.
+    let tryChange = function tryChangingGroups(indexA: number, newGroupA: Group, indexB: number, newGroupB: Group): boolean {
+        let candidateGroups = groups.slice();
+        candidateGroups[indexA] = newGroupA;
+        candidateGroups[indexB] = newGroupB;
+
+        let candidateScore = objective.getScore({
+            groups: candidateGroups,
+            preferences: result.preferences,
+            users,
+            details: result.details,
+        }, settings.objective);
+
+        if (objective.compareScores(candidateScore.score, score.score) >= 0) {
+            return false;
+        }
+
+        groups = candidateGroups;
+        score = candidateScore;
+        return true;
+    }
+
+    // After every change, start looking again from the beginning, since the
+    // change may have opened up new improvements in groups that were already
+    // checked.
+    changeLoop: while (moveCount + swapCount < MAX_OPTIMIZE_CHANGES) {
+        for (let a = 0; a < groups.length; a++) {
+            for (let member of groups[a]) {
+                let unit = getUnit(member);
+
+                // A unit only needs to be tried once, from its first member.
+                if (unit.indexOf(member) > 0 || isPinned(unit)) {
+                    continue;
+                }
+
+                let groupAWithout = groupWithout(groups[a], unit);
+
+                for (let b = 0; b < groups.length; b++) {
+                    if (a === b || !canJoin(groups[b], b, unit)) {
+                        continue;
+                    }
+
+                    let movedGroupB = groups[b].concat(unit);
+
+                    if (isWithinLimits(movedGroupB, groups[b], b, details, limits, users) &&
+                        tryChange(a, groupAWithout, b, movedGroupB)) {
+                        moveCount++;
+                        continue changeLoop;
+                    }
+
+                    for (let otherMember of groups[b]) {
+                        let otherUnit = getUnit(otherMember);
+
+                        if (otherUnit.indexOf(otherMember) > 0 || isPinned(otherUnit)) {
+                            continue;
+                        }
+
+                        let groupBWithout = groupWithout(groups[b], otherUnit);
+
+                        if (!canJoin(groupAWithout, a, otherUnit) || !canJoin(groupBWithout, b, unit)) {
+                            continue;
+                        }
+
+                        let swappedGroupA = groupAWithout.concat(otherUnit);
+                        let swappedGroupB = groupBWithout.concat(unit);
+
+                        if (isWithinLimits(swappedGroupA, groups[a], a, details, limits, users) &&
+                            isWithinLimits(swappedGroupB, groups[b], b, details, limits, users) &&
+                            tryChange(a, swappedGroupA, b, swappedGroupB)) {
+                            swapCount++;
+                            continue changeLoop;
+                        }
+                    }
+                }
+            }
+        }
+
+        break;
+    }
+
+    return {
+        result: {
+            groups,
+            preferences: result.preferences,
+            users,
+            placements: result.placements && getUpdatedPlacements(result.placements, result.groups, groups, 'optimization'),
+            details: result.details,
+        },
+        score,
+        moveCount,
+        swapCount,
+    };
+}
@@ -0,0 +1,88 @@
+import { getUnits } from './constraints';
+import { PinEntries, Pins, UserDetails } from './types';
+
+/**
+ * Returns the index of the group a pin refers to. Pins refer to groups either
+ * by number, starting at 1 for the first group, or by name.
+ *
+ * @param {number|string} value The group number or name.
+ * @param {number} groupAmount The number of groups.
+ * @param {string[]} groupNames The names of the groups, in order.
+ * @return {number} The index of the group, or -1 if there is no such group.
+ */
+export let getGroupIndex = function getGroupIndexForPin(value: number | string, groupAmount: number, groupNames: string[]): number {
+    if (typeof value === 'number') {
+        return value % 1 === 0 && value >= 1 && value <= groupAmount ? value - 1 : -1;
+    }
+
+    let index = groupNames.indexOf(value);
+    return index < groupAmount ? index : -1;
+}
+
+/**
+ * Converts pins from group numbers and names into group indices. Pins to
+ * groups that don't exist are left out.
+ *
+ * @param {Object} entries The usernames and the group each is pinned to.
+ * @param {number} groupAmount The number of groups.
+ * @param {string[]} groupNames The names of the groups, in order.
+ * @return {Object} The usernames and the index of the group each is pinned to.
+ */
+export let resolve = function resolvePins(entries: PinEntries, groupAmount: number, groupNames: string[]): Pins {
+    let pins: Pins = {};
+
+    for (let username in entries) {
+        let index = getGroupIndex(entries[username], groupAmount, groupNames);
+
+        if (index !== -1) {
+            pins[username] = index;
+        }
+    }
+
+    return pins;
+}
+
+/**
+ * Returns every problem with a set of pins, such as usernames that aren't in
+ * the grade, groups that don't exist, and users who must be together but are
+ * pinned to different groups.
+ *
+ * @param {Object} entries The usernames and the group each is pinned to.
+ * @param {Object} users The user details object.
+ * @param {number} groupAmount The number of groups.
+ * @param {string[]} groupNames The names of the groups, in order.
+ * @param {string[]} togetherWith The array of hyphenated combinations of users
+ * who must be in the same group.
+ * @return {string[]} A description of each problem.
+ */
+export let getErrors = function getPinErrors(
+    entries: PinEntries,
+    users: UserDetails,
+    groupAmount: number,
+    groupNames: string[],
+    togetherWith: string[]
+): string[] {
+    let errors: string[] = [];
+    let pins = resolve(entries, groupAmount, groupNames);
+    let units = getUnits(togetherWith);
+
+    for (let username in entries) {
+        if (!users[username]) {
+            errors.push(username + ' is pinned to group ' + entries[username] + ', but is not in the grade.');
+        }
+
+        if (pins[username] === undefined) {
+            errors.push(username + ' is pinned to group ' + entries[username] + ', which does not exist. Pin to a number from 1 to ' +
+                groupAmount + (groupNames.length > 0 ? ' or one of ' + groupNames.join(', ') : '') + '.');
+        }
+
+        for (let member of units[username] || []) {
+            if (pins[member] !== undefined && pins[username] !== undefined && pins[member] !== pins[username] && username < member) {
+                errors.push(username + ' and ' + member + ' must be together, but are pinned to groups ' + entries[username] +
+                    ' and ' + entries[member] + '.');
+            }
+        }
+    }
+
+    return errors;
+}
@@ -0,0 +1,267 @@
+import * as _ from 'lodash';
+import * as fs from 'fs';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import * as input from './input';
+import * as path from 'path';
+import { getAllMultiplier } from './scoring';
+import { LoadedGrade } from './input';
+import { BalanceConstraint, GenderConfig, Group, GroupDefinition, GroupingResult, PinEntries, Username } from './types';
+
+/**
+ * One grade (or sub-grade) of a batch plan, along with how it should be
+ * grouped. Files are given relative to the plan.
+ */
+export interface PlanEntry {
+    grade: string;
+    // The group sizes, as a dash-separated string such as `12-12-11` or as a
+    // list of sizes. Without them, the named groups are used.
+    sizes?: string | number[];
+    // Named groups, or the path of a JSON file of them.
+    groups?: string | GroupDefinition[];
+    // Balance constraints, or the path of a JSON file of them.
+    balance?: string | BalanceConstraint[];
+    // Pins, or the path of a JSON file of them.
+    pins?: string | PinEntries;
+    // The past runs to avoid repeating, as grade names or `grade:runID`.
+    history?: string[];
+    // The trip the grade is part of. Grades of the same trip are matched up
+    // so that group N of each forms group N of the trip.
+    trip?: string;
+    // The gender policy of this grade, such as `{ "policy": "proportional" }`.
+    // By default, gender is ignored when every student has the same gender.
+    gender?: GenderConfig;
+    // Whether gender should be ignored for this grade, from before there were
+    // gender policies.
+    ignoreGender?: boolean;
+}
+
+/**
+ * A grade of a batch plan after it has been grouped.
+ */
+export interface GradeResult {
+    entry: PlanEntry;
+    loaded: LoadedGrade;
+    result: GroupingResult;
+    gender: GenderConfig;
+}
+
+/**
+ * The groups of one grade that make up part of a trip's group.
+ */
+export interface TripPart {
+    gradeName: string;
+    groupName: string;
+    members: Group;
+}
+
+export interface TripGroup {
+    // The name of the group in the first grade of the trip.
+    name: string;
+    size: number;
+    parts: TripPart[];
+}
+
+export interface Trip {
+    name: string;
+    gradeNames: string[];
+    groups: TripGroup[];
+}
+
+/**
+ * Reads a batch plan, which is a JSON list of plan entries. Any files the
+ * entries refer to are read as well, relative to the plan, so that each entry
+ * holds its own group definitions, balance constraints, and pins.
+ *
+ * @param {string} filename The path of the plan.
+ * @return {Object[]} The plan entries.
+ */
+export let read = function readPlan(filename: string): PlanEntry[] {
+    let entries: PlanEntry[] = JSON.parse(fs.readFileSync(filename, 'utf-8'));
+    let readFile = (value: any): any => {
+        return typeof value === 'string' ? JSON.parse(fs.readFileSync(path.resolve(path.dirname(filename), value), 'utf-8')) : value;
+    };
+
+    if (!Array.isArray(entries)) {
+        return entries;
+    }
+
+    return entries.map((entry) => {
+        return entry && {
+            ...entry,
+            groups: readFile(entry.groups),
+            balance: readFile(entry.balance),
+            pins: readFile(entry.pins),
+        };
+    });
+}
+
+/**
+ * Returns the name of the trip of each grade in a plan. Grades are part of a
+ * trip when their entry names one, or when they are the `<grade>m` and
+ * `<grade>f` halves made by `update-db-from-csv.js`, in which case the trip is
+ * named `<grade>`.
+ *
+ * @param {Object[]} entries The plan entries.
+ * @return {Object} The trip name of each grade that is part of a trip.
+ */
+export let getTripNames = function getTripNamesForPlan(entries: PlanEntry[]): { [gradeName: string]: string } {
+    let tripNames: { [gradeName: string]: string } = {};
+
+    for (let entry of entries) {
+        let half = /^(.+)([mf])$/.exec(entry.grade);
+        let otherHalf = half && _.find(entries, { grade: half[1] + (half[2] === 'm' ? 'f' : 'm') });
+
+        if (entry.trip !== undefined) {
+            tripNames[entry.grade] = entry.trip;
+        } else if (half && otherHalf && otherHalf.trip === undefined) {
+            tripNames[entry.grade] = half[1];
+        }
+    }
+
+    return tripNames;
+}
+
+/**
+ * Returns the first problem with a batch plan, if there is one.
+ *
+ * @param {Object[]} entries The plan entries to check.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * the plan is valid.
+ */
+export let getError = function getPlanError(entries: PlanEntry[]): string | undefined {
+    if (!Array.isArray(entries) || entries.length === 0) {
+        return 'A plan must be a list of at least one grade.';
+    }
+
+    for (let entry of entries) {
+        if (!entry || typeof entry.grade !== 'string' || !entry.grade) {
+            return 'Every grade in the plan needs a grade ID.';
+        }
+
+        if (entries.filter((other) => other.grade === entry.grade).length > 1) {
+            return entry.grade + ' is in the plan more than once.';
+        }
+
+        if (entry.sizes !== undefined && entry.groups !== undefined) {
+            return entry.grade + ' has both sizes and groups. Use one or the other.';
+        }
+
+        if (entry.sizes !== undefined && !input.isValidGroupSizes(getGroupSizes(entry)!)) {
+            return 'The sizes of ' + entry.grade + ' must be whole numbers of at least 1, e.g., "12-12-11" or [12, 12, 11].';
+        }
+
+        if (entry.history !== undefined && !Array.isArray(entry.history)) {
+            return 'The history of ' + entry.grade + ' must be a list of grades.';
+        }
+
+        let genderError = entry.gender !== undefined && gender.getConfigError(entry.gender);
+
+        if (genderError) {
+            return entry.grade + ': ' + genderError;
+        }
+    }
+
+    let tripNames = getTripNames(entries);
+
+    for (let tripName of _.uniq(_.values(tripNames))) {
+        let gradeNames = Object.keys(tripNames).filter((gradeName) => tripNames[gradeName] === tripName);
+
+        if (gradeNames.length < 2) {
+            return gradeNames[0] + ' is the only grade of trip ' + tripName + '. A trip needs at least two grades to match up.';
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the group sizes of a plan entry.
+ *
+ * @param {Object} entry The plan entry.
+ * @return {number[]|undefined} The group sizes, biggest first, or `undefined`
+ * if the entry has none.
+ */
+export let getGroupSizes = function getGroupSizesForEntry(entry: PlanEntry): number[] | undefined {
+    if (entry.sizes === undefined) {
+        return undefined;
+    }
+
+    return Array.isArray(entry.sizes) ? entry.sizes.slice().sort((a, b) => b - a) : input.getGroupSizes(String(entry.sizes));
+}
+
+/**
+ * Returns the first problem with matching up the grades of each trip, which
+ * is that they must have the same number of groups.
+ *
+ * @param {Object[]} loadedGrades The loaded grades, in plan order.
+ * @param {Object} tripNames The trip name of each grade that is part of a
+ * trip.
+ * @return {string|undefined} A description of the problem, or `undefined` if
+ * every trip can be matched up.
+ */
+export let getTripError = function getTripErrorForGrades(
+    loadedGrades: LoadedGrade[],
+    tripNames: { [gradeName: string]: string }
+): string | undefined {
+    for (let tripName of _.uniq(_.values(tripNames))) {
+        let tripGrades = loadedGrades.filter((loaded) => tripNames[loaded.gradeName] === tripName);
+        let groupAmounts = tripGrades.map((loaded) => loaded.input.groupSizes.length);
+
+        if (_.uniq(groupAmounts).length > 1) {
+            return 'The grades of trip ' + tripName + ' must have the same number of groups, but ' +
+                tripGrades.map((loaded, i) => loaded.gradeName + ' has ' + groupAmounts[i]).join(' and ') + '.';
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Matches up the grouped grades of each trip, so that group N of each grade
+ * forms group N of the trip.
+ *
+ * @param {Object[]} gradeResults The grouped grades, in plan order.
+ * @param {Object} tripNames The trip name of each grade that is part of a
+ * trip.
+ * @return {Object[]} The trips, in plan order.
+ */
+export let getTrips = function getTripsForResults(gradeResults: GradeResult[], tripNames: { [gradeName: string]: string }): Trip[] {
+    return _.uniq(gradeResults.map((gradeResult) => tripNames[gradeResult.loaded.gradeName]).filter((tripName) => tripName !== undefined))
+        .map((tripName) => {
+            let tripResults = gradeResults.filter((gradeResult) => tripNames[gradeResult.loaded.gradeName] === tripName);
+            let firstResult = tripResults[0].result;
+
+            return {
+                name: tripName,
+                gradeNames: tripResults.map((gradeResult) => gradeResult.loaded.gradeName),
+                groups: firstResult.groups.map((group, index) => {
+                    let parts = tripResults.map((gradeResult) => {
+                        return {
+                            gradeName: gradeResult.loaded.gradeName,
+                            groupName: groupDefinitions.getName(index, gradeResult.result.details.groupDefinitions),
+                            members: gradeResult.result.groups[index],
+                        };
+                    });
+
+                    return {
+                        name: groupDefinitions.getName(index, firstResult.details.groupDefinitions),
+                        size: _.sum(parts.map((part) => getAllMultiplier(part.members))),
+                        parts,
+                    };
+                }),
+            };
+        });
+}
+
+/**
+ * Returns whether every user of a grade has the same gender, in which case
+ * gender limits can't be met and are ignored by default.
+ *
+ * @param {Object} loaded The loaded grade.
+ * @return {boolean} Whether or not every user has the same gender.
+ */
+export let isOneGender = function isGradeOneGender(loaded: LoadedGrade): boolean {
+    let users = loaded.input.users;
+    return _.uniq(Object.keys(users).map((username: Username) => gender.get(users, username))).length <= 1;
+}
@@ -0,0 +1,104 @@
+import * as ProgressBar from 'progress';
+import { ProgressEvent, ProgressListener } from './types';
+
+const PROGRESS_WIDTH = 40;
+
+/**
+ * Passes the progress events of a set of runs on to any number of listeners,
+ * so that callers other than the terminal can follow along.
+ */
+export interface ProgressEmitter {
+    /**
+     * Sends an event to every listener. This can be given to `makeGroups` as
+     * its `onProgress` option.
+     */
+    emit: ProgressListener;
+
+    /**
+     * Calls a listener with every event until the returned function is called.
+     */
+    subscribe(listener: ProgressListener): () => void;
+}
+
+/**
+ * Creates a progress emitter with no listeners.
+ *
+ * @return {Object} The progress emitter.
+ */
+export let createEmitter = function createProgressEmitter(): ProgressEmitter {
+    let listeners: ProgressListener[] = [];
+
+    return {
+        emit: function emitProgressEvent(event: ProgressEvent): void {
+            for (let listener of listeners.slice()) {
+                listener(event);
+            }
+        },
+
+        subscribe: function subscribeToProgress(listener: ProgressListener): () => void {
+            listeners = listeners.concat([listener]);
+
+            return () => {
+                listeners = listeners.filter((other) => other !== listener);
+            };
+        },
+    };
+}
+
+/**
+ * Shows a terminal progress bar for a set of runs. With a time limit, the bar
+ * fills up as time passes rather than as runs are made, since the runs are
+ * likely to be stopped by the time limit first.
+ *
+ * @param {Object} emitter The progress emitter of the runs.
+ * @param {string} label The text before the bar.
+ * @param {number} runAmount The most runs that will be made.
+ * @param {number} [timeLimit] The time limit of the runs, in milliseconds.
+ * @return {Function} A function that stops showing the bar.
+ */
+export let showBar = function showProgressBar(
+    emitter: ProgressEmitter,
+    label: string,
+    runAmount: number,
+    timeLimit?: number
+): () => void {
+    let startTime = Date.now();
+    let elapsed = 0;
+    let runCount = 0;
+    let progressBar = new ProgressBar(label + (timeLimit === undefined ? ' [:bar] :rate/s :percent :etas' :
+        ' [:bar] :runs runs :percent :etas'), {
+        complete: '=',
+        head: '>',
+        incomplete: ' ',
+        width: PROGRESS_WIDTH,
+        total: timeLimit === undefined ? runAmount : timeLimit,
+    });
+
+    let unsubscribe = emitter.subscribe((event) => {
+        if (event.type === 'runs') {
+            runCount += event.runCount;
+
+            if (timeLimit === undefined) {
+                progressBar.tick(event.runCount);
+            } else {
+                // The bar would finish as soon as it ticks past its total.
+                let currentElapsed = Math.min(Date.now() - startTime, timeLimit - 1);
+
+                progressBar.tick(Math.max(0, currentElapsed - elapsed), { runs: runCount });
+                elapsed = Math.max(elapsed, currentElapsed);
+            }
+        }
+
+        // Runs that stop early leave the bar unfinished, so its line is ended
+        // here instead.
+        if (event.type === 'finished') {
+            unsubscribe();
+
+            if (!progressBar.complete) {
+                progressBar.terminate();
+            }
+        }
+    });
+
+    return unsubscribe;
+}
@@ -0,0 +1,89 @@
+const MAX_SEED = 4294967296;
+
+/**
+ * A seedable source of randomness. Every random choice made while creating
+ * groups goes through one of these, so that a run can be repeated exactly by
+ * reusing its seed.
+ */
+export interface Random {
+    seed: number;
+
+    /**
+     * Returns a number from 0 (inclusive) to 1 (exclusive).
+     */
+    next(): number;
+
+    /**
+     * Returns a shuffled copy of an array.
+     */
+    shuffle<T>(array: T[]): T[];
+
+    /**
+     * Returns a random element of an array.
+     */
+    sample<T>(array: T[]): T;
+}
+
+/**
+ * Returns a new random seed.
+ *
+ * @return {number} A whole number from 0 to 2^32 - 1.
+ */
+export let getSeed = function getRandomSeed(): number {
+    return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Returns the seed for a single run within a set of runs. Seeds are
+ * consecutive, so the first run uses the set's own seed, and passing a run's
+ * seed back in as the set's seed repeats that run first.
+ *
+ * @param {number} seed The seed of the whole set of runs.
+ * @param {number} runID The index of the run.
+ * @return {number} The seed for the run.
+ */
+export let getRunSeed = function getSeedForRun(seed: number, runID: number): number {
+    return (seed + runID) % MAX_SEED;
+}
+
+/**
+ * Creates a seeded random number generator using the Mulberry32 algorithm.
+ *
+ * @param {number} seed The seed, from 0 to 2^32 - 1.
+ * @return {Object} The random number generator.
+ */
+export let create = function createRandom(seed: number): Random {
+    let state = seed >>> 0;
+
+    let next = function getNextRandom(): number {
+        state = (state + 0x6D2B79F5) | 0;
+
+        let value = Math.imul(state ^ (state >>> 15), 1 | state);
+        value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+
+        return ((value ^ (value >>> 14)) >>> 0) / MAX_SEED;
+    }
+
+    return {
+        seed,
+        next,
+
+        shuffle: function shuffleArray<T>(array: T[]): T[] {
+            let shuffled = array.slice();
+
+            // Fisher-Yates shuffle, from the end of the array to the start.
+            for (let i = shuffled.length - 1; i > 0; i--) {
+                let j = Math.floor(next() * (i + 1));
+                let swapped = shuffled[i];
+                shuffled[i] = shuffled[j];
+                shuffled[j] = swapped;
+            }
+
+            return shuffled;
+        },
+
+        sample: function sampleArray<T>(array: T[]): T {
+            return array[Math.floor(next() * array.length)];
+        },
+    };
+}
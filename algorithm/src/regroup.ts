@@ -0,0 +1,308 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import * as objective from './objective';
+import { canTryJoiningGroup, getUnits, hasMaximum } from './constraints';
+import { getLookup } from './anti-preferences';
+import { getAllMultiplier, getGUScore, getUGScore } from './scoring';
+import { getStatistics } from './statistics';
+import { getUpdatedPlacements } from './explanation';
+import { BalanceConstraint, GenderConfig, Group, GroupChange, GroupingInput, GroupingResult, ObjectiveConfig, RunResult, Username } from './types';
+
+/**
+ * Returns the index of the group a user is in.
+ *
+ * @param {string[][]} groups The groups to search.
+ * @param {string} username The username to find.
+ * @return {number} The index of the user's group, or -1 if they aren't in one.
+ */
+let getGroupIndex = function getGroupIndexOfUser(groups: Group[], username: Username): number {
+    return _.findIndex(groups, (group) => group.includes(username));
+}
+
+/**
+ * Returns every user whose group is different between two groupings, including
+ * users who were added or removed.
+ *
+ * @param {string[][]} previousGroups The groups before.
+ * @param {string[][]} groups The groups after.
+ * @return {Object[]} The changes, in the order of the previous groups and then
+ * the new ones.
+ */
+export let getChanges = function getChangesBetweenGroupings(previousGroups: Group[], groups: Group[]): GroupChange[] {
+    let changes: GroupChange[] = [];
+    let usernames = _.uniq(_.flatten(previousGroups).concat(_.flatten(groups)));
+
+    for (let username of usernames) {
+        let from = getGroupIndex(previousGroups, username);
+        let to = getGroupIndex(groups, username);
+
+        if (from !== to) {
+            changes.push({ username, from: from === -1 ? undefined : from, to: to === -1 ? undefined : to });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Rearranges a previous grouping to fit the current roster while moving as few
+ * users as possible. Users who have left are removed, and then only the users
+ * who break a constraint are taken out of their groups: split units, users
+ * away from their pinned group, users who aren't eligible for their group or
+ * have a hard anti-preference in it, and groups over their size, gender, or
+ * balance limits. The least-liked member is taken out first.
+ * New users and those taken out are then placed in the group with the most of
+ * their friends that has room, relaxing the gender and then the size limits
+ * only if no group does. No randomness is used, so the same previous grouping
+ * always gives the same result.
+ *
+ * @param {Object} input The grouping input for the current roster.
+ * @param {string[][]} previousGroups The previous groups, in the same order as
+ * the group sizes.
+ * @param {Object} genderConfig The gender policy.
+ * @param {Object} objectiveConfig The objective used to score the result.
+ * @return {Object} The new groups, along with their statistics, score, and the
+ * changes from the previous groups.
+ */
+export let regroup = function regroupWithFewestChanges(
+    input: GroupingInput,
+    previousGroups: Group[],
+    genderConfig: GenderConfig,
+    objectiveConfig: ObjectiveConfig
+): GroupingResult {
+    let preferences = input.preferences;
+    let users = input.users;
+    let groupSizes = input.groupSizes;
+    let definitions = input.groupDefinitions;
+    let lookup = getLookup(input.antiPreferences);
+    let units = getUnits(input.togetherWith || []);
+    let pins = input.pins || {};
+    let limits = gender.getLimits(users, groupSizes, genderConfig, definitions);
+
+    // Returns the users who must be grouped with a user, including themselves.
+    let getUnit = (username: Username): Group => units[username] || [username];
+
+    // Returns the group a unit is pinned to, or -1 if it isn't pinned.
+    let getPinnedIndex = (unit: Group): number => {
+        let pinnedMember = _.find(unit, (member) => pins[member] !== undefined);
+        return pinnedMember === undefined ? -1 : pins[pinnedMember];
+    };
+
+    // Returns whether a group is over its size limit, or, unless gender is
+    // ignored, its gender limits for any of the given genders.
+    let isOverMaximum = (group: Group, groupIndex: number, genders: string[], ignoreGender: boolean): boolean => {
+        if (getAllMultiplier(group) > groupSizes[groupIndex]) {
+            return true;
+        }
+
+        if (ignoreGender) {
+            return false;
+        }
+
+        return genders.some((groupGender) => {
+            return hasMaximum(group, groupGender, groupSizes[groupIndex], limits.getCapacity(groupIndex, groupGender), limits.genders);
+        });
+    };
+
+    // Returns the balance constraints of a group, including its own.
+    let getConstraints = (groupIndex: number): BalanceConstraint[] => {
+        return groupDefinitions.getConstraints(input.balanceConstraints || [], groupIndex, definitions);
+    };
+
+    // Returns whether every member of a unit meets a group's eligibility
+    // rules.
+    let isEligible = (unit: Group, groupIndex: number): boolean => {
+        return unit.every((member) => groupDefinitions.isEligible(users, member, groupIndex, definitions));
+    };
+
+    // Start from the previous groups, without anyone who has left.
+    let groups = previousGroups.map((group) => group.filter((username) => !!users[username]));
+    let unplacedUsers = Object.keys(users).filter((username) => getGroupIndex(groups, username) === -1);
+
+    // Takes a unit out of its group, so that it can be placed again.
+    let takeOut = (groupIndex: number, unit: Group): void => {
+        _.pullAll(groups[groupIndex], unit);
+        unplacedUsers.push(...unit);
+    };
+
+    // Returns the unit in a group that is liked the least by the rest of the
+    // group, out of the units that match a filter. Pinned units are never
+    // returned.
+    let getLeastLiked = (groupIndex: number, filter: (unit: Group) => boolean): Group | undefined => {
+        let group = groups[groupIndex];
+        let candidates = _.uniqWith(group.map(getUnit), _.isEqual).filter((unit) => getPinnedIndex(unit) === -1 && filter(unit));
+
+        return _.minBy(candidates.reverse(), (unit) => {
+            return _.sum(unit.map((member) => getGUScore(preferences, group, member, input.rankWeights)));
+        });
+    };
+
+    // Bring every unit back together, in its pinned group if it has one, or
+    // otherwise in the group that already has the most of its members.
+    for (let username of Object.keys(users)) {
+        let unit = getUnit(username);
+
+        if (unit.indexOf(username) > 0) {
+            continue;
+        }
+
+        let groupIndices = unit.map((member) => getGroupIndex(groups, member)).filter((index) => index !== -1);
+        let targetIndex = getPinnedIndex(unit);
+
+        if (targetIndex === -1 && groupIndices.length > 0) {
+            targetIndex = Number(_.maxBy(_.toPairs(_.countBy(groupIndices)), (pair) => pair[1])![0]);
+        }
+
+        if (targetIndex === -1) {
+            continue;
+        }
+
+        for (let member of unit) {
+            let index = getGroupIndex(groups, member);
+
+            if (index !== targetIndex) {
+                if (index !== -1) {
+                    _.pull(groups[index], member);
+                }
+
+                _.pull(unplacedUsers, member);
+                groups[targetIndex].push(member);
+            }
+        }
+    }
+
+    for (let i = 0; i < groups.length; i++) {
+        // Take out users who aren't eligible for the group, or who have a
+        // hard anti-preference against someone else in it, until no-one is
+        // left who does.
+        let conflicting: Group | undefined;
+
+        while ((conflicting = getLeastLiked(i, (unit) => {
+            let rest = _.difference(groups[i], unit);
+            return !isEligible(unit, i) || !unit.every((member) => canTryJoiningGroup(lookup, rest, member));
+        }))) {
+            takeOut(i, conflicting);
+        }
+
+        // Then take out users until the group is within its size limit, and
+        // then its gender limits.
+        let overflowing: Group | undefined;
+
+        while (isOverMaximum(groups[i], i, [], true) && (overflowing = getLeastLiked(i, () => true))) {
+            takeOut(i, overflowing);
+        }
+
+        for (let groupGender of _.uniq(_.values(limits.genders)).sort()) {
+            while (isOverMaximum(groups[i], i, [groupGender], false) &&
+                (overflowing = getLeastLiked(i, (unit) => unit.some((member) => limits.genders[member] === groupGender)))) {
+                takeOut(i, overflowing);
+            }
+        }
+
+        // With single-gender groups, users who aren't of the group's most
+        // common gender are taken out too.
+        let distribution = gender.getDistribution(groups[i], limits.genders);
+        let mainGender = _.maxBy(Object.keys(distribution).sort(), (groupGender) => distribution[groupGender]);
+
+        while (limits.isMixed(groups[i], i) &&
+            (overflowing = getLeastLiked(i, (unit) => unit.some((member) => limits.genders[member] !== mainGender)))) {
+            takeOut(i, overflowing);
+        }
+
+        // Finally, take out users who push the group over a balance maximum.
+        let unbalancing: Group | undefined;
+
+        while (balance.exceedsMaximum(groups[i], getConstraints(i), users) && (unbalancing = getLeastLiked(i, (unit) => {
+            return balance.getViolations(_.difference(groups[i], unit), getConstraints(i), users) <
+                balance.getViolations(groups[i], getConstraints(i), users);
+        }))) {
+            takeOut(i, unbalancing);
+        }
+    }
+
+    // Place every new or taken-out unit. Units whose members listed
+    // preferences go first, as in a full run.
+    let unplacedUnits = _.uniqWith(unplacedUsers.map(getUnit), _.isEqual);
+    unplacedUnits = _.sortBy(unplacedUnits, (unit) => unit.some((member) => !!preferences[member]) ? 0 : 1);
+
+    for (let unit of unplacedUnits) {
+        let pinnedIndex = getPinnedIndex(unit);
+
+        if (pinnedIndex !== -1) {
+            groups[pinnedIndex].push(...unit);
+            continue;
+        }
+
+        let unitGenders = _.uniq(unit.map((member) => limits.genders[member]));
+
+        // Prefer the group with the most friends, and then the most room.
+        let rankedIndices = _.sortBy(_.range(groups.length), [
+            (index: number) => -_.sum(unit.map((member) => getUGScore(preferences, groups[index], member, input.rankWeights))),
+            (index: number) => getAllMultiplier(groups[index]) - groupSizes[index],
+        ]);
+
+        // Returns whether the unit can join a group. Groups are tried three
+        // times, as in the fallback pass of a full run: first within every
+        // limit, then ignoring gender, then ignoring size and balance as well.
+        // Anti-preferences, eligibility rules, and single-gender groups are
+        // never ignored, so a unit that fits none of them stays unplaced.
+        let canPlace = (index: number, attempt: number): boolean => {
+            let newGroup = groups[index].concat(unit);
+
+            if (!unit.every((member) => canTryJoiningGroup(lookup, groups[index], member)) || !isEligible(unit, index) ||
+                limits.isMixed(newGroup, index)) {
+                return false;
+            }
+
+            return attempt === 2 || !(balance.exceedsMaximum(newGroup, getConstraints(index), users) ||
+                isOverMaximum(newGroup, index, unitGenders, attempt === 1));
+        };
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            let position = _.findIndex(rankedIndices, (index) => canPlace(index, attempt));
+
+            if (position !== -1) {
+                groups[rankedIndices[position]].push(...unit);
+                break;
+            }
+        }
+    }
+
+    // Users who stayed in their group were placed by the previous run.
+    let placements = getUpdatedPlacements(_.mapValues(users, (user, username) => {
+        return getPinnedIndex(getUnit(username)) === -1 ? 'previous' : 'pinned';
+    }), previousGroups, groups, 'regroup');
+
+    let result: RunResult = {
+        groups,
+        preferences,
+        users,
+        placements,
+        details: {
+            groupSizes,
+            groupAmount: groupSizes.length,
+            // Regrouping doesn't use randomness, so there's no seed to keep.
+            seed: 0,
+            rankWeights: input.rankWeights,
+            balanceConstraints: input.balanceConstraints,
+            togetherWith: input.togetherWith,
+            antiPreferences: input.antiPreferences,
+            pins: input.pins,
+            groupDefinitions: input.groupDefinitions,
+            history: input.history,
+        },
+    };
+
+    return {
+        groups: result.groups,
+        preferences: result.preferences,
+        users: result.users,
+        placements: result.placements,
+        details: result.details,
+        statistics: getStatistics(result),
+        score: objective.getScore(result, objectiveConfig),
+        changes: getChanges(previousGroups, groups),
+    };
+}
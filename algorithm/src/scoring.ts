@@ -0,0 +1,203 @@
+import * as _ from 'lodash';
+import { Group, Preferences, Username } from './types';
+
+/**
+ * Returns the number of users present within a single username. For example,
+ * the user "mburstein2021" would have a multiplicity of 1, since there is only
+ * one user. However, the joint-user "mburstein2021-auser2021--x2" has a
+ * multiplicity of 2. Currently, only multipliers 1 and 2 are supported.
+ * Joint-users are only kept for older data; students who must be grouped
+ * together should be linked with the grade's `togetherWith` list instead.
+ *
+ * @param username The username of the user to find the multiplier for.
+ * @returns The multiplier value.
+ */
+export let getMultiplier = function getMultiplierForUsername(username: Username): number {
+    if (username.endsWith("--x5")) {
+        return 5;
+    }
+
+    if (username.endsWith("--x4")) {
+        return 4;
+    }
+
+    if (username.endsWith("--x3")) {
+        return 3;
+    }
+
+    if (username.endsWith("--x2")) {
+        return 2;
+    }
+
+    return 1;
+}
+
+export let getAllMultiplier = function getMultiplierSumForUsernames(usernames: Username[]): number {
+    return usernames.reduce((sum, username) => sum + getMultiplier(username), 0);
+}
+
+/**
+ * Returns how much a user wants to be with a friend, based on where the friend
+ * is in their ordered list of preferences. Without rank weights, every listed
+ * friend counts as 1. With rank weights, the friend at position `i` counts as
+ * `rankWeights[i]` divided by the largest weight, so a top choice with the
+ * largest weight still counts as 1. Positions past the end of the weights use
+ * the last weight.
+ *
+ * @param {Object} preferences The preferences object, containing user choices.
+ * @param {string} username The user whose preferences should be checked.
+ * @param {string} friend The potential friend.
+ * @param {number[]} [rankWeights] The weight of each preference position.
+ * @return {number} The weight of the friend, or 0 if they weren't listed.
+ */
+export let getPreferenceWeight = function getWeightOfPreference(
+    preferences: Preferences,
+    username: Username,
+    friend: Username,
+    rankWeights?: number[]
+): number {
+    if (!preferences[username]) {
+        return 0;
+    }
+
+    let rank = preferences[username].indexOf(friend);
+
+    if (rank === -1) {
+        return 0;
+    }
+
+    if (!rankWeights || rankWeights.length === 0) {
+        return 1;
+    }
+
+    return rankWeights[Math.min(rank, rankWeights.length - 1)] / _.max(rankWeights)!;
+}
+
+/**
+ * Returns a score representing how much a user likes a group. In other words,
+ * this is the number of friends that the user has in the group, weighted by
+ * rank if rank weights are given.
+ *
+ * @param {Object} preferences The preferences object, containing user choices.
+ * @param {string[]} group The list of current group member usernames.
+ * @param {string} member The member to find an favorability score for.
+ * @param {number[]} [rankWeights] The weight of each preference position.
+ * @return {number} The favorability score.
+ */
+export let getUGScore = function getUserGroupScore(preferences: Preferences, group: Group, member: Username, rankWeights?: number[]): number {
+    let score = 0;
+
+    for (let i = 0; i < group.length; i++) {
+        let groupMember = group[i];
+        let weight = getPreferenceWeight(preferences, member, groupMember, rankWeights);
+
+        if (weight > 0) {
+            score += getMultiplier(groupMember) * weight;
+        }
+    }
+
+    return score;
+}
+
+/**
+ * Returns a score representing how acceptable a user is within a group. In other
+ * words, this is the number of people in the group who listed them as a friend,
+ * weighted by rank if rank weights are given.
+ *
+ * @param {Object} preferences The preferences object, containing user choices.
+ * @param {string[]} group The list of current group member usernames.
+ * @param {string} member The member to find an acceptability score for.
+ * @param {number[]} [rankWeights] The weight of each preference position.
+ * @return {number} The acceptability score.
+ */
+export let getGUScore = function getUserGroupScore(preferences: Preferences, group: Group, member: Username, rankWeights?: number[]): number {
+    let score = 0;
+
+    for (let i = 0; i < group.length; i++) {
+        let groupMember = group[i];
+        let weight = getPreferenceWeight(preferences, groupMember, member, rankWeights);
+
+        if (weight > 0) {
+            score += getMultiplier(member) * getMultiplier(groupMember) * weight;
+        }
+    }
+
+    return score;
+}
+
+/**
+ * Returns the favorability metric of a group. This is the number of friendships
+ * divided by the number of possible friendships.
+ *
+ * @param {string[]} group The array of member usernames.
+ * @param {Object} preferences The preferences object.
+ * @param {number[]} [rankWeights] The weight of each preference position.
+ * @return {number} The favorability value.
+ */
+export let getPercentFavorability = function getPercentFavorabilityForGroup(group: Group, preferences: Preferences, rankWeights?: number[]): number {
+    // If it's an empty group, then instead of returning NaN, treat
+    // as a "perfect" group.
+    if (group.length === 0) {
+        return 1;
+    }
+
+    let currentFriendsSum = 0;
+
+    for (let i = 0; i < group.length; i++) {
+        for (let j = 0; j < group.length; j++) {
+            currentFriendsSum += getMultiplier(group[i]) * getMultiplier(group[j]) *
+                getPreferenceWeight(preferences, group[i], group[j], rankWeights);
+        }
+    }
+
+    return currentFriendsSum / ((getAllMultiplier(group) - 1) * (getAllMultiplier(group) - 1) * 2);
+}
+
+/**
+ * Returns the lowest number of friends for any registered user in any group.
+ * In other words, this is the minimum number of friends of any user who
+ * listed preferences.
+ *
+ * @param {string[]} groups The array of groups to check.
+ * @param {Object} preferences The preferences object to use when determining
+ * friendship counts.
+ * @param {number[]} [rankWeights] The weight of each preference position. If
+ * given, friends are counted by their weight.
+ * @return {Object} An object containing a `minFriends` key of the minimum
+ * friends value and a `usernames` key containing all users with that number
+ * of friends.
+ */
+export let getMinFriends = function getMinimumFriendsScore(groups: Group[], preferences: Preferences, rankWeights?: number[]): { minFriends: number; usernames: Username[] } {
+    let currentMinFriends = Infinity;
+    let currentUsersWithMinFriends: Username[] = [];
+
+    for (let i = 0; i < groups.length; i++) {
+        let group = groups[i];
+
+        for (let j = 0; j < group.length; j++) {
+            let username = group[j];
+
+            // If they don't have preferences, they shouldn't be analyzed.
+            if (!preferences[username]) {
+                continue;
+            }
+
+            let currentFriendsCount = 0;
+
+            for (let k = 0; k < group.length; k++) {
+                currentFriendsCount += getPreferenceWeight(preferences, username, group[k], rankWeights);
+            }
+
+            if (currentFriendsCount === currentMinFriends) {
+                currentUsersWithMinFriends.push(username)
+            }
+
+            if (currentFriendsCount < currentMinFriends) {
+                currentMinFriends = currentFriendsCount;
+                currentUsersWithMinFriends = [username];
+            }
+        }
+    }
+
+    return { minFriends: currentMinFriends, usernames: currentUsersWithMinFriends };
+}
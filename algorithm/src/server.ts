@@ -0,0 +1,221 @@
+import * as dataSource from './data-source';
+import * as http from 'http';
+import * as jobs from './jobs';
+import * as yargs from 'yargs';
+import { getExport } from './export';
+import { Job, JobEvent, JobRequest } from './jobs';
+
+const DEFAULT_PORT = 8081;
+// The server can start groupings and read every grade, so it only listens
+// locally unless told otherwise.
+const DEFAULT_HOST = '127.0.0.1';
+const MAX_BODY_LENGTH = 1024 * 1024;
+
+let port = yargs.argv.port === undefined ? DEFAULT_PORT : Number(yargs.argv.port);
+let host = yargs.argv.host === undefined ? DEFAULT_HOST : String(yargs.argv.host);
+let dataFilename = yargs.argv.data as string | undefined;
+let allowedOrigin = yargs.argv.allowOrigin as string | undefined;
+
+if (!(port >= 0) || port % 1 !== 0) {
+    console.error(port + ' is not a valid port.');
+    process.exit(1);
+}
+
+let queue = jobs.createQueue(dataSource.create(dataFilename));
+
+/**
+ * Returns the parts of a job that are sent to clients. The result is left out,
+ * since it is fetched separately.
+ *
+ * @param {Object} job The job.
+ * @return {Object} The job's summary.
+ */
+let getSummary = function getJobSummary(job: Job): object {
+    return {
+        id: job.id,
+        grade: job.request.grade,
+        status: job.status,
+        runAmount: job.runAmount,
+        runCount: job.runCount,
+        stopReason: job.stopReason,
+        createdAt: job.createdAt,
+        finishedAt: job.finishedAt,
+        error: job.error,
+    };
+}
+
+/**
+ * Sends a JSON response.
+ *
+ * @param {Object} response The response.
+ * @param {number} statusCode The HTTP status code.
+ * @param {*} body The value to send as JSON.
+ */
+let send = function sendJSON(response: http.ServerResponse, statusCode: number, body: any): void {
+    response.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body) + '\n');
+}
+
+/**
+ * Reads a JSON request body.
+ *
+ * @param {Object} request The request.
+ * @return {Promise<*>} A promise of the parsed body.
+ */
+let readBody = function readJSONBody(request: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+
+        request.setEncoding('utf-8');
+        request.on('data', (chunk: string) => {
+            body += chunk;
+
+            if (body.length > MAX_BODY_LENGTH) {
+                reject(new Error('The request body is too long.'));
+                request.destroy();
+            }
+        });
+        request.on('end', () => {
+            try {
+                resolve(JSON.parse(body || '{}'));
+            } catch (error) {
+                reject(new Error('The request body is not valid JSON.'));
+            }
+        });
+        request.on('error', reject);
+    });
+}
+
+/**
+ * Streams the events of a job as server-sent events. The job's current state
+ * is sent first, and the stream ends once the job has finished.
+ *
+ * @param {Object} response The response.
+ * @param {Object} job The job.
+ */
+let streamEvents = function streamJobEvents(response: http.ServerResponse, job: Job): void {
+    let write = (event: JobEvent): void => {
+        response.write('event: ' + event.type + '\ndata: ' + JSON.stringify(event) + '\n\n');
+    };
+
+    response.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+    write({ type: 'progress', runCount: job.runCount, runAmount: job.runAmount });
+    write({ type: 'status', status: job.status, error: job.error });
+
+    if (jobs.isFinished(job)) {
+        response.end();
+        return;
+    }
+
+    let unsubscribe = queue.subscribe(job.id, (event) => {
+        write(event);
+
+        if (jobs.isFinished(job)) {
+            unsubscribe();
+            response.end();
+        }
+    });
+
+    response.on('close', unsubscribe);
+}
+
+/**
+ * Handles a request to the job API.
+ *
+ * @param {Object} request The request.
+ * @param {Object} response The response.
+ * @return {Promise} A promise that resolves once the request has been handled.
+ */
+let handle = function handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    let method = request.method || 'GET';
+    let path = (request.url || '/').split('?')[0].replace(/\/+$/, '');
+    let match = /^\/jobs\/([^/]+)(?:\/(events|result|cancel))?$/.exec(path);
+    let job = match ? queue.get(match[1]) : undefined;
+
+    if (allowedOrigin) {
+        response.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+        response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+
+    if (method === 'OPTIONS') {
+        response.writeHead(204);
+        response.end();
+        return Promise.resolve();
+    }
+
+    if (path === '/jobs' && method === 'GET') {
+        send(response, 200, queue.list().map(getSummary));
+        return Promise.resolve();
+    }
+
+    if (path === '/jobs' && method === 'POST') {
+        return readBody(request).then((body: JobRequest) => {
+            let requestError = jobs.getRequestError(body);
+
+            if (requestError) {
+                send(response, 400, { error: requestError });
+                return;
+            }
+
+            send(response, 202, getSummary(queue.start(body)));
+        });
+    }
+
+    if (!match) {
+        send(response, 404, { error: 'There is nothing at ' + path + '.' });
+        return Promise.resolve();
+    }
+
+    if (!job) {
+        send(response, 404, { error: 'There is no job ' + match[1] + '.' });
+        return Promise.resolve();
+    }
+
+    let action = match[2];
+
+    if (!action && method === 'GET') {
+        send(response, 200, getSummary(job));
+    } else if (action === 'events' && method === 'GET') {
+        streamEvents(response, job);
+    } else if (action === 'result' && method === 'GET') {
+        if (job.status !== 'done' || !job.result) {
+            send(response, 409, { error: 'Job ' + job.id + ' is ' + job.status + ', so it has no result.' });
+        } else {
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.end(getExport(job.result, job.studentNames || {}, 'json'));
+        }
+    } else if (action === 'cancel' && method === 'POST') {
+        if (!queue.cancel(job.id)) {
+            send(response, 409, { error: 'Job ' + job.id + ' is already ' + job.status + '.' });
+        } else {
+            send(response, 202, getSummary(job));
+        }
+    } else {
+        send(response, 405, { error: method + ' is not allowed for ' + path + '.' });
+    }
+
+    return Promise.resolve();
+}
+
+let server = http.createServer((request, response) => {
+    handle(request, response).catch((error: Error) => {
+        if (!response.headersSent) {
+            send(response, 400, { error: error.message });
+        }
+    });
+});
+
+server.on('error', (error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+});
+
+server.listen(port, host, () => {
+    /* eslint-disable-next-line no-console */
+    console.log('Listening on http://' + host + ':' + port + ' with ' + (dataFilename || 'Firestore') + '.');
+});
@@ -0,0 +1,732 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import * as objective from './objective';
+import * as random from './random';
+import { getLookup } from './anti-preferences';
+import { getUnits } from './constraints';
+import { getMinFriends, getMultiplier, getPreferenceWeight } from './scoring';
+import { getStatistics } from './statistics';
+import { getUpdatedPlacements } from './explanation';
+import { BalanceConstraint, GenderConfig, Group, GroupingInput, GroupingResult, ObjectiveConfig, RunResult, UserDetails, Username } from './types';
+
+// How much friend counts may differ by and still be equal, since weighted
+// counts are fractions.
+const EPSILON = 1e-9;
+
+// How many search nodes are visited between checks of the time limit.
+const NODES_PER_TIME_CHECK = 1024;
+
+// How many search nodes the first attempt at a target may visit before the
+// search restarts, and how much that grows with each restart.
+const FIRST_RESTART_NODES = 1000;
+const RESTART_GROWTH = 1.5;
+
+/**
+ * Users who must be placed in the same group: a unit, or a single user who
+ * isn't in one.
+ */
+export interface SolverItem {
+    members: Username[];
+    // The number of users in the item, counting joint-users by their
+    // multiplier, along with how many of them have each gender.
+    size: number;
+    genderSizes: { [gender: string]: number };
+    // The group the item is pinned to, or -1 if it isn't pinned.
+    pinnedIndex: number;
+}
+
+/**
+ * Everything the solver needs to know about a grade, worked out once.
+ */
+export interface SolverModel {
+    users: UserDetails;
+    items: SolverItem[];
+    // The index of the item each user belongs to.
+    itemIndices: { [username: string]: number };
+    // The friends each user with preferences picked in the grade, along with
+    // the weight of each pick.
+    picks: { [username: string]: { friend: Username; weight: number }[] };
+    // The users who picked each user.
+    pickedBy: { [username: string]: Username[] };
+    // The items that each item has a hard anti-preference against.
+    conflicts: number[][];
+    // Whether each item may join each group.
+    eligibility: boolean[][];
+    capacities: number[];
+    // Every gender in the grade, and the capacity of each group for each.
+    genders: string[];
+    genderCapacities: { [gender: string]: number[] };
+    constraints: BalanceConstraint[][];
+    // A description of each group's limits, so that empty groups with the same
+    // limits can be treated as the same group.
+    signatures: string[];
+}
+
+// An item placed in a group while searching.
+interface Placement {
+    itemIndex: number;
+    groupIndex: number;
+}
+
+export interface SolverOptions {
+    gender: GenderConfig;
+    // The most time to search for, in milliseconds.
+    timeLimit: number;
+    // The groups to start from, such as the heuristic's best run. They are
+    // only used if they fit every hard limit.
+    initialGroups?: Group[];
+    // The seed used to break ties after a restart, so that a search can be
+    // repeated.
+    seed?: number;
+}
+
+export interface SolverOutcome {
+    // The best groups found that fit every hard limit, if any were found.
+    groups?: Group[];
+    minFriends: number;
+    // No grouping within the hard limits has a higher minimum friend count
+    // than this. It is -Infinity if no grouping fits the limits at all.
+    upperBound: number;
+    isOptimal: boolean;
+    nodeCount: number;
+    isTimedOut: boolean;
+}
+
+/**
+ * Works out the items, picks, and group limits of a grouping input. Groups
+ * that must have only one gender can't be modelled, so they throw an error.
+ *
+ * @param {Object} input The grouping input.
+ * @param {Object} genderConfig The gender policy.
+ * @return {Object} The solver model.
+ */
+export let getModel = function getSolverModel(input: GroupingInput, genderConfig: GenderConfig): SolverModel {
+    if (genderConfig.policy === 'single') {
+        throw new Error('Single-gender groups can\'t be searched exactly. Use another gender policy.');
+    }
+
+    let users = input.users;
+    let usernames = Object.keys(users);
+    let groupSizes = input.groupSizes;
+    let definitions = input.groupDefinitions;
+    let units = getUnits(input.togetherWith || []);
+    let lookup = getLookup(input.antiPreferences || []);
+    let pins = input.pins || {};
+    let limits = gender.getLimits(users, groupSizes, genderConfig, definitions);
+
+    let items: SolverItem[] = [];
+    let itemIndices: { [username: string]: number } = {};
+
+    for (let username of usernames) {
+        if (itemIndices[username] !== undefined) {
+            continue;
+        }
+
+        let members = (units[username] || [username]).filter((member) => !!users[member]);
+        let pinnedMember = _.find(members, (member) => pins[member] !== undefined);
+
+        for (let member of members) {
+            itemIndices[member] = items.length;
+        }
+
+        items.push({
+            members,
+            size: _.sum(members.map(getMultiplier)),
+            genderSizes: gender.getDistribution(members, limits.genders),
+            pinnedIndex: pinnedMember === undefined ? -1 : pins[pinnedMember],
+        });
+    }
+
+    let picks: SolverModel['picks'] = {};
+    let pickedBy: SolverModel['pickedBy'] = {};
+
+    for (let username of usernames) {
+        pickedBy[username] = pickedBy[username] || [];
+
+        if (!input.preferences[username]) {
+            continue;
+        }
+
+        picks[username] = [];
+
+        for (let friend of _.uniq(input.preferences[username])) {
+            let weight = getPreferenceWeight(input.preferences, username, friend, input.rankWeights);
+
+            if (users[friend] && weight > 0) {
+                picks[username].push({ friend, weight });
+                pickedBy[friend] = (pickedBy[friend] || []).concat(username);
+            }
+        }
+    }
+
+    let conflicts = items.map((item) => {
+        let conflicting = _.flatMap(item.members, (member) => {
+            return Object.keys(lookup[member] || {}).filter((other) => lookup[member][other] === 'hard' && !!users[other]);
+        });
+
+        return _.uniq(conflicting.map((other) => itemIndices[other]));
+    });
+
+    let groupIndices = _.range(groupSizes.length);
+    let capacities = groupSizes.slice();
+
+    // If a gender has more users than its capacities add up to, which the
+    // fallback pass of a run allows for, each group may have up to that
+    // gender's share of its size instead.
+    let getGenderCapacities = (genderName: string): number[] => {
+        let genderCapacities = groupIndices.map((index) => limits.getCapacity(index, genderName));
+        let genderSize = _.sum(items.map((item) => item.genderSizes[genderName] || 0));
+
+        if (genderSize <= _.sum(genderCapacities)) {
+            return genderCapacities;
+        }
+
+        return genderCapacities.map((capacity, index) => {
+            return Math.max(capacity, Math.ceil(capacities[index] * genderSize / _.sum(capacities)));
+        });
+    };
+    let genders = _.uniq(_.values(limits.genders)).sort();
+    let genderCapacities = _.fromPairs(genders.map((genderName) => [genderName, getGenderCapacities(genderName)]));
+    let constraints = groupIndices.map((index) => groupDefinitions.getConstraints(input.balanceConstraints || [], index, definitions));
+
+    return {
+        users,
+        items,
+        itemIndices,
+        picks,
+        pickedBy,
+        conflicts,
+        eligibility: items.map((item) => groupIndices.map((index) => {
+            return (item.pinnedIndex === -1 || item.pinnedIndex === index) &&
+                item.members.every((member) => groupDefinitions.isEligible(users, member, index, definitions));
+        })),
+        capacities,
+        genders,
+        genderCapacities,
+        constraints,
+        signatures: groupIndices.map((index) => {
+            let definition = definitions && definitions[index];
+
+            return JSON.stringify([
+                capacities[index],
+                genders.map((genderName) => genderCapacities[genderName][index]),
+                constraints[index],
+                definition ? definition.eligibility : undefined,
+            ]);
+        }),
+    };
+}
+
+/**
+ * Returns an upper bound on the minimum friend count of any grouping. Each user
+ * can at most have the friends they picked who could share a group with them,
+ * up to the room left in the largest group they could join.
+ *
+ * @param {Object} model The solver model.
+ * @return {number} The upper bound, or Infinity if no-one listed preferences.
+ */
+export let getRootBound = function getRootUpperBound(model: SolverModel): number {
+    let bound = Infinity;
+    let groupIndices = _.range(model.capacities.length);
+
+    for (let username in model.picks) {
+        let itemIndex = model.itemIndices[username];
+        let item = model.items[itemIndex];
+        let ownGroups = groupIndices.filter((index) => model.eligibility[itemIndex][index]);
+        let room = _.max(ownGroups.map((index) => model.capacities[index] - item.size)) || 0;
+        let ownFriends = 0;
+        let otherWeights: number[] = [];
+
+        for (let pick of model.picks[username]) {
+            let friendIndex = model.itemIndices[pick.friend];
+
+            if (friendIndex === itemIndex) {
+                ownFriends += pick.weight;
+            } else if (!model.conflicts[itemIndex].includes(friendIndex) &&
+                ownGroups.some((index) => model.eligibility[friendIndex][index])) {
+                otherWeights.push(pick.weight);
+            }
+        }
+
+        // Every friend takes up at least one place in the group.
+        let friends = ownFriends + _.sum(_.sortBy(otherWeights, (weight) => -weight).slice(0, Math.max(room, 0)));
+        bound = Math.min(bound, friends);
+    }
+
+    return bound;
+}
+
+/**
+ * Searches for the grouping with the highest minimum friend count that fits
+ * every hard limit: group sizes, gender capacities, hard anti-preferences,
+ * units, pins, eligibility rules, and balance maximums. This is the first
+ * friend term of the worst-case strategy. Soft anti-preferences, balance
+ * minimums, and the later terms are not searched for.
+ *
+ * The search is a branch-and-bound over the items, which are placed one at a
+ * time, bringing friends to the users who need them most. A branch is cut off
+ * as soon as a user can no longer have more friends than the target, counting
+ * every friend who is in their group or could still join it. Each time a
+ * grouping is found, the target is raised above it, until the search either
+ * finds nothing more, which proves the best grouping found is optimal, or runs
+ * out of time, in which case the bound from `getRootBound` is reported
+ * instead. A gender with more users than its capacities add up to may have up
+ * to its share of each group, as in the fallback pass of a run.
+ *
+ * @param {Object} input The grouping input.
+ * @param {Object} options The solver options.
+ * @return {Object} The best groups found, their minimum friend count, and the
+ * proven upper bound.
+ */
+export let solve = function solveForMinFriends(input: GroupingInput, options: SolverOptions): SolverOutcome {
+    let model = getModel(input, options.gender);
+    let items = model.items;
+    let groupCount = model.capacities.length;
+    let groupIndices = _.range(groupCount);
+    let deadline = Date.now() + options.timeLimit;
+
+    let assignments: number[] = [];
+    let groups: Group[] = [];
+    let loads: number[] = [];
+    let genderLoads: { [gender: string]: number[] } = {};
+    let remaining = { size: 0, genderSizes: {} as { [gender: string]: number } };
+    let target = -Infinity;
+    let nodeCount = 0;
+    let isTimedOut = false;
+
+    // Each attempt at a target is cut off after a number of nodes, and then
+    // started again with ties broken differently, so that one bad early choice
+    // can't use up the whole time limit.
+    let attemptNodes = 0;
+    let nodeLimit = FIRST_RESTART_NODES;
+    let isCutOff = false;
+    let shuffler: random.Random | undefined;
+    let scanOrder = _.range(items.length);
+
+    let reset = (): void => {
+        assignments = items.map(() => -1);
+        groups = groupIndices.map(() => []);
+        loads = groupIndices.map(() => 0);
+        genderLoads = _.fromPairs(model.genders.map((genderName) => [genderName, groupIndices.map(() => 0)]));
+        remaining = {
+            size: _.sumBy(items, 'size'),
+            genderSizes: _.fromPairs(model.genders.map((genderName) => {
+                return [genderName, _.sum(items.map((item) => item.genderSizes[genderName] || 0))];
+            })),
+        };
+    };
+
+    let place = (itemIndex: number, groupIndex: number, sign: number): void => {
+        let item = items[itemIndex];
+
+        assignments[itemIndex] = sign > 0 ? groupIndex : -1;
+        loads[groupIndex] += sign * item.size;
+        remaining.size -= sign * item.size;
+
+        for (let genderName in item.genderSizes) {
+            genderLoads[genderName][groupIndex] += sign * item.genderSizes[genderName];
+            remaining.genderSizes[genderName] -= sign * item.genderSizes[genderName];
+        }
+
+        if (sign > 0) {
+            groups[groupIndex].push(...item.members);
+        } else {
+            _.pullAll(groups[groupIndex], item.members);
+        }
+    };
+
+    // Returns whether an item can join a group without breaking a hard limit.
+    let canFit = (itemIndex: number, groupIndex: number): boolean => {
+        let item = items[itemIndex];
+
+        if (!model.eligibility[itemIndex][groupIndex] ||
+            loads[groupIndex] + item.size > model.capacities[groupIndex] ||
+            Object.keys(item.genderSizes).some((genderName) => {
+                return genderLoads[genderName][groupIndex] + item.genderSizes[genderName] > model.genderCapacities[genderName][groupIndex];
+            }) ||
+            model.conflicts[itemIndex].some((other) => assignments[other] === groupIndex)) {
+            return false;
+        }
+
+        let constraints = model.constraints[groupIndex];
+        return constraints.length === 0 || !balance.exceedsMaximum(groups[groupIndex].concat(item.members), constraints, model.users);
+    };
+
+    // Returns the most friends a user could have in a group, counting the
+    // friends in it and those who haven't been placed but could still join.
+    let getPotential = (username: Username, groupIndex: number): number => {
+        let itemIndex = model.itemIndices[username];
+        let potential = 0;
+
+        for (let pick of model.picks[username]) {
+            let friendIndex = model.itemIndices[pick.friend];
+            let friendGroup = assignments[friendIndex];
+
+            if (friendIndex === itemIndex || friendGroup === groupIndex || (friendGroup === -1 && canFit(friendIndex, groupIndex))) {
+                potential += pick.weight;
+            }
+        }
+
+        return potential;
+    };
+
+    // Returns whether a user could still have more friends than the target.
+    let canReachTarget = (username: Username): boolean => {
+        if (!model.picks[username]) {
+            return true;
+        }
+
+        let itemIndex = model.itemIndices[username];
+        let groupIndex = assignments[itemIndex];
+
+        if (groupIndex !== -1) {
+            return getPotential(username, groupIndex) > target + EPSILON;
+        }
+
+        return groupIndices.some((index) => canFit(itemIndex, index) && getPotential(username, index) > target + EPSILON);
+    };
+
+    // Returns whether the unplaced users still fit in the room left. A group
+    // only has room for a gender if it has room for anyone at all.
+    let hasRoom = (): boolean => {
+        let getRoom = (index: number): number => Math.max(model.capacities[index] - loads[index], 0);
+        let getGenderRoom = (genderName: string, index: number): number => {
+            return Math.min(getRoom(index), Math.max(model.genderCapacities[genderName][index] - genderLoads[genderName][index], 0));
+        };
+
+        return remaining.size <= _.sum(groupIndices.map((index) => {
+            return Math.min(getRoom(index), _.sum(model.genders.map((genderName) => getGenderRoom(genderName, index))));
+        })) && model.genders.every((genderName) => {
+            return remaining.genderSizes[genderName] <= _.sum(groupIndices.map((index) => getGenderRoom(genderName, index)));
+        });
+    };
+
+    // Returns whether every user affected by placing an item in a group can
+    // still reach the target: the members of the group, and everyone who
+    // picked a member of the item.
+    let isConsistent = (itemIndex: number, groupIndex: number): boolean => {
+        if (!hasRoom()) {
+            return false;
+        }
+
+        let affected = groups[groupIndex].concat(_.flatMap(items[itemIndex].members, (member) => model.pickedBy[member]));
+        return _.uniq(affected).every(canReachTarget);
+    };
+
+    // Returns the groups an item could join where each of its members could
+    // still reach the target.
+    let getOptions = (itemIndex: number): number[] => groupIndices.filter((index) => {
+        return canFit(itemIndex, index) && items[itemIndex].members.every((member) => {
+            return !model.picks[member] || getPotential(member, index) > target + EPSILON;
+        });
+    });
+
+    // Returns the unplaced item with the fewest groups it could join, so that
+    // a branch that can't reach the target fails as early as possible, or -1
+    // if every item has been placed.
+    let getNextItem = (): { itemIndex: number; options: number[] } => {
+        let next = { itemIndex: -1, options: [] as number[] };
+
+        for (let itemIndex of scanOrder) {
+            if (assignments[itemIndex] !== -1) {
+                continue;
+            }
+
+            let options = getOptions(itemIndex);
+
+            if (next.itemIndex === -1 || options.length < next.options.length) {
+                next = { itemIndex, options };
+            }
+
+            if (options.length === 0) {
+                break;
+            }
+        }
+
+        return next;
+    };
+
+    let initialIndices: { [username: string]: number } = {};
+
+    (options.initialGroups || []).forEach((group, index) => {
+        for (let username of group) {
+            initialIndices[username] = index;
+        }
+    });
+
+    // Sorts the groups to try for an item, with the most friends first.
+    let sortOptions = (itemIndex: number, options: number[]): number[] => {
+        let members = items[itemIndex].members;
+
+        return _.sortBy(shuffler ? shuffler.shuffle(options) : options, [
+            (index: number) => -_.sum(members.map((member) => {
+                return _.sumBy(groups[index], (other) => {
+                    return getPreferenceWeight(input.preferences, member, other, input.rankWeights) +
+                        getPreferenceWeight(input.preferences, other, member, input.rankWeights);
+                });
+            })),
+            (index: number) => initialIndices[members[0]] === index ? 0 : 1,
+        ]);
+    };
+
+    // Returns the placements to branch on next. If a placed user doesn't yet
+    // have more friends than the target, one of the friends who could still
+    // join them must do so, so the user with the fewest such friends is
+    // chosen and each of those friends is tried in their group. Otherwise, the
+    // unplaced item with the fewest options is tried in each of its groups.
+    // Returns `undefined` once every item has been placed.
+    let getBranches = (): Placement[] | undefined => {
+        let neediest: Placement[] | undefined;
+
+        for (let groupIndex of groupIndices) {
+            for (let username of groups[groupIndex]) {
+                if (!model.picks[username]) {
+                    continue;
+                }
+
+                let itemIndex = model.itemIndices[username];
+                let friends = 0;
+                let branches: Placement[] = [];
+
+                for (let pick of _.sortBy(model.picks[username], (userPick) => -userPick.weight)) {
+                    let friendIndex = model.itemIndices[pick.friend];
+                    let friendGroup = assignments[friendIndex];
+
+                    if (friendIndex === itemIndex || friendGroup === groupIndex) {
+                        friends += pick.weight;
+                    } else if (friendGroup === -1 && canFit(friendIndex, groupIndex)) {
+                        branches.push({ itemIndex: friendIndex, groupIndex });
+                    }
+                }
+
+                if (friends <= target + EPSILON && (!neediest || branches.length < neediest.length)) {
+                    neediest = _.uniqBy(branches, 'itemIndex');
+                }
+            }
+        }
+
+        if (neediest) {
+            return shuffler ? shuffler.shuffle(neediest) : neediest;
+        }
+
+        let next = getNextItem();
+
+        if (next.itemIndex === -1) {
+            return undefined;
+        }
+
+        return sortOptions(next.itemIndex, next.options).map((groupIndex) => ({ itemIndex: next.itemIndex, groupIndex }));
+    };
+
+    let search = (): boolean => {
+        let branches = getBranches();
+
+        if (!branches) {
+            return true;
+        }
+
+        nodeCount++;
+        attemptNodes++;
+
+        if (nodeCount % NODES_PER_TIME_CHECK === 0 && Date.now() > deadline) {
+            isTimedOut = true;
+        }
+
+        if (attemptNodes > nodeLimit) {
+            isCutOff = true;
+        }
+
+        if (isTimedOut || isCutOff) {
+            return false;
+        }
+
+        let triedSignatures: string[] = [];
+
+        for (let branch of branches) {
+            // Empty groups with the same limits are interchangeable, so only
+            // the first of them needs to be tried.
+            if (groups[branch.groupIndex].length === 0) {
+                if (triedSignatures.includes(model.signatures[branch.groupIndex])) {
+                    continue;
+                }
+
+                triedSignatures.push(model.signatures[branch.groupIndex]);
+            }
+
+            place(branch.itemIndex, branch.groupIndex, 1);
+
+            if (isConsistent(branch.itemIndex, branch.groupIndex) && search()) {
+                return true;
+            }
+
+            place(branch.itemIndex, branch.groupIndex, -1);
+
+            if (isTimedOut || isCutOff) {
+                return false;
+            }
+        }
+
+        return false;
+    };
+
+    // Returns a grouping where every user has more friends than the target, if
+    // one can be found. An attempt that ends without being cut off has tried
+    // every grouping, so there is no such grouping.
+    let searchAbove = (minimum: number): Group[] | undefined => {
+        target = minimum;
+
+        for (let attempt = 0; !isTimedOut; attempt++) {
+            reset();
+            shuffler = attempt === 0 ? undefined : random.create(random.getRunSeed(options.seed || 0, attempt));
+            scanOrder = shuffler ? shuffler.shuffle(_.range(items.length)) : _.range(items.length);
+            nodeLimit = FIRST_RESTART_NODES * Math.pow(RESTART_GROWTH, attempt);
+            attemptNodes = 0;
+            isCutOff = false;
+
+            for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+                if (items[itemIndex].pinnedIndex !== -1) {
+                    place(itemIndex, items[itemIndex].pinnedIndex, 1);
+                }
+            }
+
+            if (!Object.keys(model.picks).every(canReachTarget)) {
+                return undefined;
+            }
+
+            if (search()) {
+                return groups.map((group) => group.slice());
+            }
+
+            if (!isCutOff) {
+                return undefined;
+            }
+        }
+
+        return undefined;
+    };
+
+    // Returns whether a grouping places every item whole within every hard
+    // limit, by placing its items one at a time.
+    let isWithinLimits = (initialGroups: Group[]): boolean => {
+        reset();
+
+        if (initialGroups.length !== groupCount || _.flatten(initialGroups).length !== Object.keys(model.users).length) {
+            return false;
+        }
+
+        return items.every((item, itemIndex) => {
+            let groupIndex = initialIndices[item.members[0]];
+
+            if (groupIndex === undefined || !item.members.every((member) => initialIndices[member] === groupIndex) ||
+                !canFit(itemIndex, groupIndex)) {
+                return false;
+            }
+
+            place(itemIndex, groupIndex, 1);
+            return true;
+        });
+    };
+
+    let getValue = (grouping: Group[]): number => getMinFriends(grouping, input.preferences, input.rankWeights).minFriends;
+    let best = options.initialGroups && isWithinLimits(options.initialGroups) ? options.initialGroups : undefined;
+    let bestValue = best ? getValue(best) : -Infinity;
+    let upperBound = getRootBound(model);
+    let isOptimal = false;
+
+    while (!isTimedOut) {
+        if (best && bestValue >= upperBound - EPSILON) {
+            isOptimal = true;
+            break;
+        }
+
+        let found = searchAbove(bestValue);
+
+        if (found) {
+            best = found;
+            bestValue = getValue(found);
+        } else if (!isTimedOut) {
+            // Nothing beats the best grouping, so it is optimal. If there is
+            // no best grouping, nothing fits the limits at all.
+            upperBound = bestValue;
+            isOptimal = !!best;
+            break;
+        }
+    }
+
+    return {
+        groups: best,
+        minFriends: bestValue,
+        upperBound,
+        isOptimal,
+        nodeCount,
+        isTimedOut,
+    };
+}
+
+/**
+ * Runs the solver starting from the heuristic's best run, and reports the
+ * optimality gap of that run. The solver's groups are only used if they have
+ * a higher minimum friend count than the heuristic's, and also score strictly
+ * better under the objective, since the solver only looks at friends.
+ *
+ * @param {Object} input The grouping input.
+ * @param {Object} heuristicResult The best result of the heuristic.
+ * @param {Object} options The solver options. Any initial groups are replaced
+ * by the heuristic's.
+ * @param {Object} objectiveConfig The objective used to score a new result.
+ * @return {Object} The better of the two results, along with the solver's
+ * report.
+ */
+export let solveFromResult = function solveFromHeuristicResult(
+    input: GroupingInput,
+    heuristicResult: GroupingResult,
+    options: SolverOptions,
+    objectiveConfig: ObjectiveConfig
+): GroupingResult {
+    let startTime = Date.now();
+    let outcome = solve(input, { ...options, initialGroups: heuristicResult.groups });
+    let heuristicMinFriends = heuristicResult.statistics.minFriends;
+
+    let solverReport = {
+        heuristicMinFriends,
+        minFriends: outcome.minFriends,
+        upperBound: outcome.upperBound,
+        gap: outcome.upperBound - heuristicMinFriends,
+        isOptimal: outcome.isOptimal,
+        isTimedOut: outcome.isTimedOut,
+        nodeCount: outcome.nodeCount,
+        seconds: (Date.now() - startTime) / 1000,
+    };
+
+    if (!outcome.groups || outcome.minFriends <= heuristicMinFriends + EPSILON) {
+        return { ...heuristicResult, solver: solverReport };
+    }
+
+    let result: RunResult = {
+        groups: outcome.groups,
+        preferences: heuristicResult.preferences,
+        users: heuristicResult.users,
+        placements: heuristicResult.placements &&
+            getUpdatedPlacements(heuristicResult.placements, heuristicResult.groups, outcome.groups, 'solver'),
+        details: heuristicResult.details,
+    };
+    let score = objective.getScore(result, objectiveConfig);
+
+    if (objective.compareScores(score.score, heuristicResult.score.score) >= 0) {
+        return { ...heuristicResult, solver: solverReport };
+    }
+
+    return {
+        groups: result.groups,
+        preferences: result.preferences,
+        users: result.users,
+        placements: result.placements,
+        details: result.details,
+        statistics: getStatistics(result),
+        score,
+        solver: solverReport,
+        runs: heuristicResult.runs,
+    };
+}
@@ -0,0 +1,91 @@
+import * as _ from 'lodash';
+import * as balance from './balance';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import { getLookup, getSoftCount } from './anti-preferences';
+import { getAllMultiplier, getMinFriends, getPercentFavorability } from './scoring';
+import { getRepeatPairCount } from './history';
+import { Group, RunResult, Statistics } from './types';
+
+/**
+ * Computes the statistics for a run result, such as the placed percent and
+ * the favorability, gender ratio, and balanced attributes of its groups.
+ *
+ * @param {Object} result The run result to compute statistics for.
+ * @return {Object} The statistics.
+ */
+export let getStatistics = function getStatisticsForResult(result: RunResult): Statistics {
+    let groups = result.groups;
+    let preferences = result.preferences;
+    let users = result.users;
+
+    let percentFavorabilities = groups.map((group: Group) => {
+        return getPercentFavorability(group, preferences, result.details.rankWeights);
+    });
+
+    // Genders are shown as they are, even if they were mapped for grouping.
+    let genderRatios = gender.getShares(groups, gender.getAll(users));
+
+    let currentPlacedCount = 0;
+    let currentBiggestGroupSize = 0;
+    let currentSmallestGroupSize = Infinity;
+
+    for (let i = 0; i < groups.length; i++) {
+        currentPlacedCount += groups[i].length;
+
+        if (getAllMultiplier(groups[i]) > currentBiggestGroupSize) {
+            currentBiggestGroupSize = groups[i].length;
+        }
+
+        if (getAllMultiplier(groups[i]) < currentSmallestGroupSize) {
+            currentSmallestGroupSize = groups[i].length;
+        }
+    }
+
+    let minFriends = getMinFriends(groups, preferences, result.details.rankWeights);
+    let antiPreferences = getLookup(result.details.antiPreferences || []);
+    let attributeDistributions: Statistics['attributeDistributions'] = {};
+
+    // Each group's constraints include the run's along with its own, if it
+    // has a definition.
+    let groupConstraints = groups.map((group: Group, i: number) => {
+        return groupDefinitions.getConstraints(result.details.balanceConstraints || [], i, result.details.groupDefinitions);
+    });
+
+    for (let constraint of _.flatten(groupConstraints)) {
+        attributeDistributions[constraint.attribute] = groups.map((group: Group) => {
+            return balance.getDistribution(group, constraint.attribute, users);
+        });
+    }
+
+    return {
+        groupSizes: groups.map((group) => getAllMultiplier(group)).sort((a, b) => b - a),
+        userCount: getAllMultiplier(Object.keys(users)),
+        biggestGroupSize: currentBiggestGroupSize,
+        smallestGroupSize: currentSmallestGroupSize,
+        placedPercent: currentPlacedCount / Object.keys(users).length,
+        chosePercent: Object.keys(preferences).length / Object.keys(users).length,
+        percentFavorabilities,
+        avgPercentFavorability: _.mean(percentFavorabilities)!,
+        maxPercentFavorability: _.max(percentFavorabilities)!,
+        minPercentFavorability: _.min(percentFavorabilities)!,
+        minFriends: minFriends.minFriends,
+        minFriendsUsernames: minFriends.usernames,
+        genderRatios,
+        genderSpread: gender.getSpread(genderRatios),
+        attributeDistributions,
+        balanceViolations: _.sum(groups.map((group, i) => balance.getViolations(group, groupConstraints[i], users))),
+        softAntiPreferenceCount: _.sum(groups.map((group) => getSoftCount(group, antiPreferences))),
+        repeatPairCount: result.details.history ? getRepeatPairCount(groups, result.details.history) : 0,
+    };
+}
+
+/**
+ * Returns a string representation of a percent value.
+ *
+ * @param {number} number The decimal value, from 0 to 1.
+ * @return {string} The percentage representation.
+ */
+export let getPercent = function getPercentString(number: number): string {
+    return (number * 100).toFixed(2) + '%';
+}
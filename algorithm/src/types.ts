@@ -0,0 +1,440 @@
+export type Username = string
+export type Group = Username[]
+
+export interface Preferences {
+    [username: string]: string[];
+}
+
+export interface UserDetails {
+    [username: string]: {
+        // Any value, e.g., `female`, `male`, or `nonbinary`. Older records only
+        // have `isMale` instead.
+        gender?: string;
+        isMale?: boolean;
+        grade: string;
+        isGoing?: boolean;
+        preferences?: string[];
+        // Any other attribute on the user record, such as `advisory` or
+        // `swimLevel`, which balance constraints can refer to.
+        [attribute: string]: any;
+    };
+}
+
+/**
+ * The usernames of pinned users, and the group each is pinned to, as written
+ * in a pins file or on a grade document. Groups are given by number, starting
+ * at 1, or by name.
+ */
+export interface PinEntries {
+    [username: string]: number | string;
+}
+
+/**
+ * The usernames of pinned users, and the index of the group each is pinned to.
+ */
+export interface Pins {
+    [username: string]: number;
+}
+
+/**
+ * The number of times each pair of users shared a group in past groupings,
+ * keyed by both usernames in both orders.
+ */
+export interface PairHistory {
+    [username: string]: { [otherUsername: string]: number };
+}
+
+export interface StudentNames {
+    [username: string]: string;
+}
+
+/**
+ * How a user came to be in their group: pinned there, placed by the preference
+ * or fallback pass of a run, moved by the local search, placed when
+ * regrouping or kept from the previous run, or placed by the exact solver.
+ */
+export type PlacementPass = 'pinned' | 'preference' | 'fallback' | 'optimization' | 'regroup' | 'previous' | 'solver'
+
+export interface Placements {
+    [username: string]: PlacementPass;
+}
+
+export interface RunResult {
+    groups: Group[];
+    preferences: Preferences;
+    users: UserDetails;
+    placements?: Placements;
+    details: {
+        groupSizes: number[];
+        groupAmount: number;
+        seed: number;
+        rankWeights?: number[];
+        balanceConstraints?: BalanceConstraint[];
+        togetherWith?: string[];
+        antiPreferences?: AntiPreference[];
+        pins?: Pins;
+        groupDefinitions?: GroupDefinition[];
+        history?: PairHistory;
+    };
+}
+
+export type AntiPreferenceSeverity = 'hard' | 'soft'
+
+/**
+ * A pair of users who shouldn't be grouped together. Hard anti-preferences are
+ * never broken, while soft ones are avoided where possible by counting them
+ * against a run's score.
+ */
+export interface AntiPreference {
+    usernameA: Username;
+    usernameB: Username;
+    reason?: string;
+    severity: AntiPreferenceSeverity;
+}
+
+/**
+ * A limit on how many members of each group may share a value of a user
+ * attribute. `max` and `min` are hard limits on the number of members with the
+ * value, and `target` is a soft ratio of the group that should have it. Without
+ * a `value`, `max` applies to every value of the attribute separately, e.g., no
+ * more than 3 students from any one advisory.
+ */
+export interface BalanceConstraint {
+    attribute: string;
+    value?: string | number | boolean;
+    max?: number;
+    min?: number;
+    target?: number;
+}
+
+/**
+ * A rule that only lets users with certain values of an attribute join a
+ * group, e.g., only students with a `swimLevel` of 2 or 3 on a canoe trip.
+ */
+export interface EligibilityRule {
+    attribute: string;
+    values: (string | number | boolean)[];
+}
+
+/**
+ * A named group, such as a trip, with its own limits. The gender capacities
+ * replace those of the gender policy, and `balanceConstraints` apply to this
+ * group on top of the run's, e.g., at most 2 students who need accessible
+ * lodging. Users must meet every eligibility rule to join. Leaders and the
+ * description are only shown in the results.
+ */
+export interface GroupDefinition {
+    name: string;
+    capacity: number;
+    // The most members of each gender, e.g., `{ "male": 6 }`.
+    genderCapacities?: { [gender: string]: number };
+    // The same as `genderCapacities` for `male` and `female`, for older
+    // definitions.
+    maleCapacity?: number;
+    femaleCapacity?: number;
+    // The only gender this group may have, with single-gender groups.
+    gender?: string;
+    balanceConstraints?: BalanceConstraint[];
+    eligibility?: EligibilityRule[];
+    leaders?: string[];
+    description?: string;
+}
+
+/**
+ * Everything the algorithm needs to know about a grade in order to make groups.
+ */
+export interface GroupingInput {
+    users: UserDetails;
+    preferences: Preferences;
+    antiPreferences: AntiPreference[];
+    // Hyphenated `a__b` combinations of users who must be in the same group,
+    // such as twins.
+    togetherWith?: string[];
+    groupSizes: number[];
+    // The named groups, in the same order as the group sizes, which are their
+    // capacities. Without them, groups are numbered.
+    groupDefinitions?: GroupDefinition[];
+    // The weight of each preference position, from first choice to last. If
+    // not given, every listed friend counts the same.
+    rankWeights?: number[];
+    balanceConstraints?: BalanceConstraint[];
+    // Users who must be placed in a certain group, along with the rest of
+    // their unit. Pinned users are never removed from their group.
+    pins?: Pins;
+    // Who was grouped together in past years, so that repeat pairs can be
+    // avoided.
+    history?: PairHistory;
+}
+
+/**
+ * How runs are compared. `strategy` is either the name of a built-in strategy
+ * or `weighted`, in which case `weights` gives the weight of each term.
+ */
+export interface ObjectiveConfig {
+    strategy: string;
+    weights?: { [termName: string]: number };
+}
+
+/**
+ * How gender is limited within groups. `policy` is one of `ignore`, `half`,
+ * `proportional`, or `single`, as described in `gender.getLimits`. With
+ * single-gender groups, `mapping` gives the gender whose groups a student
+ * joins, by their username or their gender, e.g., for genders too small to
+ * have groups of their own.
+ */
+export interface GenderConfig {
+    policy: string;
+    mapping?: { [usernameOrGender: string]: string };
+}
+
+/**
+ * The score of a run, along with the value of each term that went into it.
+ * Lower scores are better.
+ */
+export interface ScoreBreakdown {
+    strategy: string;
+    terms: { [termName: string]: number };
+    score: number[];
+}
+
+/**
+ * Stops a set of runs early, e.g., when a job is cancelled. The flag is in
+ * shared memory, so that worker threads see it as soon as it is set, and holds
+ * the reason the runs were stopped.
+ */
+export interface StopSignal {
+    flag: Int32Array;
+}
+
+// Why a set of runs stopped before all of them were made: they were cancelled,
+// the time limit was reached, or the best score stopped improving.
+export type StopReason = 'cancelled' | 'timeLimit' | 'patience'
+
+/**
+ * An event while a set of runs is being made. `runs` gives the number of newly
+ * completed runs, `improved` is sent whenever a better run is found, and
+ * `finished` is sent once no more runs will be made, before any optimizing.
+ */
+export type ProgressEvent = { type: 'runs'; runCount: number } |
+    { type: 'improved'; runID: number; score: ScoreBreakdown } |
+    { type: 'finished'; runCount: number; stopReason?: StopReason }
+
+export type ProgressListener = (event: ProgressEvent) => void
+
+export interface GroupingOptions {
+    // The most runs to make. Fewer are made if the runs are stopped early.
+    runAmount: number;
+    // Gender is limited to half of each group if this isn't given.
+    gender?: GenderConfig;
+    seed?: number;
+    workerAmount?: number;
+    optimize?: boolean;
+    objective?: ObjectiveConfig;
+    onProgress?: ProgressListener;
+    // Once stopped, no more runs are started, and the best run so far is
+    // used.
+    stopSignal?: StopSignal;
+    // The most time to spend on runs, in milliseconds.
+    timeLimit?: number;
+    // Stops once the best run hasn't improved for this many runs.
+    patience?: number;
+    // Whether to use a worker thread even for a single worker, so that the
+    // calling thread stays free, e.g., to answer requests or Ctrl-C.
+    isInBackground?: boolean;
+}
+
+/**
+ * The options that every run within a set of runs shares. Unlike
+ * `GroupingOptions`, these can be sent to worker threads.
+ */
+export interface RunSettings {
+    gender: GenderConfig;
+    seed: number;
+    objective: ObjectiveConfig;
+    stopSignal?: StopSignal;
+    // The time after which no more runs are started, in milliseconds since
+    // the epoch.
+    deadline?: number;
+    // Stops once the best run in the range hasn't improved for this many runs.
+    // This is only given with a single range, since each range only knows its
+    // own best run.
+    patience?: number;
+}
+
+/**
+ * The best run found within a range of runs, along with the score it was
+ * chosen by.
+ */
+export interface BestRun {
+    result: RunResult;
+    score: ScoreBreakdown;
+    runID: number;
+}
+
+export type WorkerMessage = { type: 'progress'; event: ProgressEvent } | { type: 'best'; best: BestRun | undefined }
+
+export interface Statistics {
+    groupSizes: number[];
+    userCount: number;
+    biggestGroupSize: number;
+    smallestGroupSize: number;
+    placedPercent: number;
+    chosePercent: number;
+    percentFavorabilities: number[];
+    avgPercentFavorability: number;
+    maxPercentFavorability: number;
+    minPercentFavorability: number;
+    minFriends: number;
+    minFriendsUsernames: Username[];
+    // The share of each group's members with each gender in the grade, per
+    // group.
+    genderRatios: { [gender: string]: number[] };
+    // The largest difference between two groups' shares of any one gender.
+    genderSpread: number;
+    // The number of members with each value of every balanced attribute, per
+    // group.
+    attributeDistributions: { [attribute: string]: { [value: string]: number }[] };
+    balanceViolations: number;
+    // The number of pairs with a soft anti-preference who share a group.
+    softAntiPreferenceCount: number;
+    // The number of pairs who have shared a group in a past grouping.
+    repeatPairCount: number;
+}
+
+/**
+ * A user whose group changed between two groupings. `from` is missing for
+ * users who are new, and `to` for users who are no longer in any group.
+ */
+export interface GroupChange {
+    username: Username;
+    from?: number;
+    to?: number;
+}
+
+export interface GroupingResult extends RunResult {
+    statistics: Statistics;
+    score: ScoreBreakdown;
+    optimization?: {
+        before: Statistics;
+        moveCount: number;
+        swapCount: number;
+    };
+    // The changes from the previous grouping, if this result was regrouped
+    // from one.
+    changes?: GroupChange[];
+    solver?: SolverReport;
+    // The number of runs made, and why they stopped early, if they did.
+    runs?: { runCount: number; stopReason?: StopReason };
+}
+
+/**
+ * How the exact solver did compared to the heuristic's best run. The gap is
+ * how far the heuristic's minimum friend count may be below the best
+ * possible one.
+ */
+export interface SolverReport {
+    heuristicMinFriends: number;
+    minFriends: number;
+    upperBound: number;
+    gap: number;
+    isOptimal: boolean;
+    isTimedOut: boolean;
+    nodeCount: number;
+    seconds: number;
+}
+
+export type GroupingStatus = 'draft' | 'published'
+
+/**
+ * A saved run, stored under `groupings/<grade>/runs/<id>`. Runs are never
+ * overwritten; publishing one marks the previously published run as a draft.
+ */
+export interface GroupingRecord {
+    groups: Group[];
+    parameters: {
+        groupSizes: number[];
+        runAmount: number;
+        gender?: GenderConfig;
+        // Whether gender was ignored, for runs saved before gender policies.
+        oneGenderGroups?: boolean;
+        objective: ObjectiveConfig;
+        rankWeights?: number[];
+        balanceConstraints?: BalanceConstraint[];
+        togetherWith?: string[];
+        // The users left out because they aren't going.
+        excludedUsernames?: string[];
+        pins?: Pins;
+        // The run this one was regrouped from, if any.
+        previousRunID?: string;
+        groupDefinitions?: GroupDefinition[];
+        // The past runs used as history, as grade names or `grade:runID`.
+        historySources?: string[];
+    };
+    seed: number;
+    statistics: Statistics;
+    score?: ScoreBreakdown;
+    placements?: Placements;
+    createdAt: string;
+    status: GroupingStatus;
+}
+
+export interface GroupingRecords {
+    [runID: string]: GroupingRecord;
+}
+
+/**
+ * The contents of a `grades/<grade>` document. Only the keys used by the
+ * algorithm are typed; anything else on the document is passed through.
+ */
+export interface GradeRecord {
+    students?: StudentNames;
+    // Older anti-preferences are stored as `a__b` strings.
+    antiPreferences?: (string | AntiPreference)[];
+    togetherWith?: string[];
+    balanceConstraints?: BalanceConstraint[];
+    pins?: PinEntries;
+    // The names of the groups, biggest first, which pins can refer to.
+    groupNames?: string[];
+    // Named groups, used instead of group sizes when given.
+    groupDefinitions?: GroupDefinition[];
+    [key: string]: any;
+}
+
+/**
+ * A place that grade and user records can be read from, such as Firestore or
+ * a local snapshot file.
+ */
+export interface DataSource {
+    /**
+     * Returns the grade document for a grade, or an empty object if the grade
+     * does not exist.
+     */
+    getGrade(gradeName: string): Promise<GradeRecord>;
+
+    /**
+     * Returns the user records of every user within a grade.
+     */
+    getUsers(gradeName: string): Promise<UserDetails>;
+
+    /**
+     * Returns the user records of every user in every grade.
+     */
+    getAllUsers(): Promise<UserDetails>;
+
+    /**
+     * Saves a new run for a grade, and returns its ID. This never replaces an
+     * existing run.
+     */
+    saveGrouping(gradeName: string, record: GroupingRecord): Promise<string>;
+
+    /**
+     * Returns every saved run for a grade, keyed by run ID.
+     */
+    getGroupings(gradeName: string): Promise<GroupingRecords>;
+
+    /**
+     * Marks a saved run as published, and marks the previously published run
+     * (if any) as a draft.
+     */
+    publishGrouping(gradeName: string, runID: string): Promise<void>;
+}
@@ -1,5 +1,6 @@
 let fs = require('fs');
 let database = require('./database').get();
+let parseGender = require('./gender').parse;
 let csv = require('csv-string');
 
 let filename = process.argv[2];
@@ -12,14 +13,22 @@ let db = database.firestore();
 let promises = [];
 
 for (let row of parsedRows) {
-    let isMale = row[1] === 'Boy';
-    let fullGradeName = gradeName + (separateGenders ? (isMale ? 'm' : 'f') : '');
+    let gender = parseGender(row[1]) || 'unknown';
+    let genderSuffix = gender === 'male' ? 'm' : gender === 'female' ? 'f' : '-' + gender;
+    let fullGradeName = gradeName + (separateGenders ? genderSuffix : '');
+    let userRecord = {
+        grade: fullGradeName,
+        gender: gender,
+    };
+
+    // The web app still reads `isMale`, so it is kept for male and female
+    // students.
+    if (gender === 'male' || gender === 'female') {
+        userRecord.isMale = gender === 'male';
+    }
 
     promises.push(
-        db.collection('user-records').doc(row[0]).set({
-            grade: fullGradeName,
-            isMale: isMale,
-        })
+        db.collection('user-records').doc(row[0]).set(userRecord)
     );
 
     console.log(fullGradeName)
@@ -1,5 +1,6 @@
 let fs = require('fs');
 let database = require('./database.js').get();
+let parseGender = require('./gender.js').parse;
 
 let studentsFilename = process.argv[2];
 let preferencesFilename = process.argv[3];
@@ -40,11 +41,20 @@ function getNewUserRecords(oldStudents, gradeName) {
             }, { merge: true }),
         );
 
+        let gender = parseGender(student.gender) || 'unknown';
+        let userRecord = {
+            grade: gradeName,
+            gender: gender,
+        };
+
+        // The web app still reads `isMale`, so it is kept for male and female
+        // students.
+        if (gender === 'male' || gender === 'female') {
+            userRecord.isMale = gender === 'male';
+        }
+
         promises.push(
-            db.collection('user-records').doc(username).set({
-                grade: gradeName,
-                isMale: student.gender === 'M',
-            }),
+            db.collection('user-records').doc(username).set(userRecord),
         );
     }
 
@@ -0,0 +1,88 @@
+import * as dataSource from './data-source';
+import * as fs from 'fs';
+import * as input from './input';
+import * as yargs from 'yargs';
+import { GroupDefinition } from './types';
+import { validate, ValidationIssue } from './validation';
+
+const INVALID_SIZES_MESSAGE = 'The group sizes must be whole numbers of at least 1, e.g., 12-12-11.';
+
+let gradeName = yargs.argv.grade as string;
+let dataFilename = yargs.argv.data as string | undefined;
+let groupSizesArgument = yargs.argv.sizes as string | number | undefined;
+let genderPolicyArgument = yargs.argv.genderPolicy as string | undefined;
+let genderMappingArgument = yargs.argv.genderMapping as string | undefined;
+let ignoreGenderArgument = yargs.argv.ignoreGender as string | undefined;
+let balanceFilename = yargs.argv.balance as string | undefined;
+let pinsFilename = yargs.argv.pins as string | undefined;
+let groupsFilename = yargs.argv.groups as string | undefined;
+
+let source = dataSource.create(dataFilename);
+
+/**
+ * Logs every issue, errors first, along with a count of each level.
+ *
+ * @param {Object[]} issues The issues found.
+ */
+let output = function outputIssues(issues: ValidationIssue[]): void {
+    let errorCount = issues.filter((issue) => issue.level === 'error').length;
+    let warningCount = issues.length - errorCount;
+
+    /* eslint-disable no-console */
+    for (let issue of issues) {
+        console.log((issue.level === 'error' ? 'ERROR' : 'WARNING') + '  ' + issue.message);
+    }
+
+    console.log(gradeName + ': ' + errorCount + ' errors, ' + warningCount + ' warnings.');
+    /* eslint-enable no-console */
+}
+
+// The grade's users are read first, since a CSV file only belongs to a grade
+// once one has been read.
+Promise.all([source.getGrade(gradeName), source.getUsers(gradeName)]).then((results) => {
+    return source.getAllUsers().then((allUsers) => {
+        let grade = results[0];
+        let groupDefinitions: GroupDefinition[] | undefined;
+        let groupSizes: number[] | undefined;
+        let sizeIssues: ValidationIssue[] = [];
+
+        // Named groups are used unless group sizes are given instead, just as
+        // they are when grouping.
+        if (groupsFilename) {
+            groupDefinitions = JSON.parse(fs.readFileSync(groupsFilename, 'utf-8'));
+        } else if (groupSizesArgument === undefined) {
+            groupDefinitions = grade.groupDefinitions;
+        } else {
+            groupSizes = input.getGroupSizes(String(groupSizesArgument));
+        }
+
+        if (groupSizes && !input.isValidGroupSizes(groupSizes)) {
+            sizeIssues.push({ level: 'error', message: INVALID_SIZES_MESSAGE });
+            groupSizes = undefined;
+        }
+
+        // Without valid group sizes, only the checks that don't need them
+        // are made.
+        return sizeIssues.concat(validate({
+            gradeName,
+            grade,
+            users: results[1],
+            allUsers,
+            groupSizes: groupDefinitions && Array.isArray(groupDefinitions) ?
+                groupDefinitions.map((definition) => definition && definition.capacity) : groupSizes,
+            groupDefinitions,
+            gender: input.getGenderConfig(genderPolicyArgument, genderMappingArgument, ignoreGenderArgument),
+            balanceConstraints: balanceFilename ? JSON.parse(fs.readFileSync(balanceFilename, 'utf-8')) : grade.balanceConstraints,
+            pins: pinsFilename ? JSON.parse(fs.readFileSync(pinsFilename, 'utf-8')) : grade.pins,
+        }));
+    });
+}).then((issues) => {
+    output(issues);
+
+    if (issues.some((issue) => issue.level === 'error')) {
+        process.exit(1);
+    }
+}).catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+});
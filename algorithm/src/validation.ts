@@ -0,0 +1,487 @@
+import * as _ from 'lodash';
+import * as antiPreferences from './anti-preferences';
+import * as attendance from './attendance';
+import * as balance from './balance';
+import * as gender from './gender';
+import * as groupDefinitions from './group-definitions';
+import * as pins from './pins';
+import { canTryJoiningGroup, getUnits } from './constraints';
+import { getAllMultiplier } from './scoring';
+import { BalanceConstraint, GenderConfig, GradeRecord, GroupDefinition, PinEntries, UserDetails } from './types';
+
+export type IssueLevel = 'error' | 'warning'
+
+/**
+ * A problem found in a grade's data. Errors make a run impossible or
+ * meaningless, so they should stop it; warnings are handled by the algorithm,
+ * but are probably mistakes.
+ */
+export interface ValidationIssue {
+    level: IssueLevel;
+    message: string;
+}
+
+/**
+ * Everything about a grade that can be validated. The group sizes, gender
+ * setting, balance constraints, pins, and group definitions are only checked
+ * if the group sizes are given, in the same order as the groups. With group
+ * definitions, the group sizes are their capacities.
+ */
+export interface ValidationInput {
+    gradeName: string;
+    grade: GradeRecord;
+    users: UserDetails;
+    // Every user in every grade, so that picks from other grades can be told
+    // apart from picks of users who don't exist.
+    allUsers: UserDetails;
+    groupSizes?: number[];
+    gender?: GenderConfig;
+    balanceConstraints?: BalanceConstraint[];
+    pins?: PinEntries;
+    groupDefinitions?: GroupDefinition[];
+}
+
+let error = (message: string): ValidationIssue => ({ level: 'error', message });
+let warning = (message: string): ValidationIssue => ({ level: 'warning', message });
+
+/**
+ * Checks every attending user's friend picks for self-picks, duplicates, and
+ * picks of users who aren't in the grade or aren't going.
+ *
+ * @param {Object} input The validation input.
+ * @return {Object[]} The issues found.
+ */
+let getPreferenceIssues = function getIssuesWithPreferences(input: ValidationInput): ValidationIssue[] {
+    let issues: ValidationIssue[] = [];
+
+    for (let username in input.users) {
+        if (!attendance.isAttending(input.users, username)) {
+            continue;
+        }
+
+        let preferences = input.users[username].preferences;
+
+        if (!preferences || preferences.length === 0) {
+            issues.push(warning(username + ' has not listed any preferences.'));
+            continue;
+        }
+
+        for (let i = 0; i < preferences.length; i++) {
+            let pick = preferences[i];
+
+            if (pick === username) {
+                issues.push(warning(username + ' picked themselves.'));
+            } else if (preferences.indexOf(pick) !== i) {
+                issues.push(warning(username + ' picked ' + pick + ' more than once.'));
+            } else if (!input.allUsers[pick]) {
+                issues.push(warning(username + ' picked ' + pick + ', who has no user record.'));
+            } else if (!input.users[pick]) {
+                issues.push(warning(username + ' picked ' + pick + ', who is in ' + input.allUsers[pick].grade + ' rather than ' +
+                    input.gradeName + '.'));
+            } else if (!attendance.isAttending(input.users, pick)) {
+                issues.push(warning(username + ' picked ' + pick + ', who is not going, so the pick will be dropped.'));
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Checks that every user in the grade has a name, and that every named
+ * student has a user record.
+ *
+ * @param {Object} input The validation input.
+ * @return {Object[]} The issues found.
+ */
+let getNameIssues = function getIssuesWithNames(input: ValidationInput): ValidationIssue[] {
+    let issues: ValidationIssue[] = [];
+    let students = input.grade.students || {};
+
+    for (let username in input.users) {
+        if (!students[username]) {
+            issues.push(warning(username + ' has no name on ' + input.gradeName + '.'));
+        }
+    }
+
+    for (let username in students) {
+        if (!input.users[username]) {
+            issues.push(warning(username + ' (' + students[username] + ') is listed on ' + input.gradeName +
+                ' but has no user record in the grade.'));
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Checks that the groups have room for every attending user.
+ *
+ * @param {Object} input The validation input.
+ * @param {number[]} groupSizes The group sizes.
+ * @return {Object[]} The issues found.
+ */
+let getCapacityIssues = function getIssuesWithCapacity(input: ValidationInput, groupSizes: number[]): ValidationIssue[] {
+    let issues: ValidationIssue[] = [];
+    let usernames = Object.keys(input.users).filter((username) => attendance.isAttending(input.users, username));
+    let userCount = getAllMultiplier(usernames);
+    let capacity = _.sum(groupSizes);
+
+    if (userCount > capacity) {
+        issues.push(error('The groups only have room for ' + capacity + ' students, but ' + input.gradeName + ' has ' +
+            userCount + '.'));
+    } else if (userCount < capacity) {
+        issues.push(warning('The groups have room for ' + capacity + ' students, but ' + input.gradeName + ' only has ' +
+            userCount + '.'));
+    }
+
+    return issues;
+}
+
+/**
+ * Returns whether the groups can be shared out between the genders, each
+ * group holding only one gender, so that every gender has room for all of its
+ * students. Groups are tried biggest first, and each either goes to a gender
+ * that still needs room or is left out.
+ *
+ * @param {number[]} amounts The number of students of each gender.
+ * @param {number[][]} capacities The room each group has for each gender, in
+ * the same order as the amounts.
+ * @return {boolean} Whether or not the groups can be shared out.
+ */
+let canSplit = function canSplitGroupsBetweenGenders(amounts: number[], capacities: number[][]): boolean {
+    let sortedCapacities = _.sortBy(capacities, (groupCapacities) => -_.max(groupCapacities)!);
+    let failedStates = new Set<string>();
+
+    let search = (groupIndex: number, remaining: number[]): boolean => {
+        if (remaining.every((amount) => amount <= 0)) {
+            return true;
+        }
+
+        let state = groupIndex + ':' + remaining.join(',');
+
+        if (groupIndex === sortedCapacities.length || failedStates.has(state)) {
+            return false;
+        }
+
+        for (let i = 0; i < remaining.length; i++) {
+            if (remaining[i] > 0 && sortedCapacities[groupIndex][i] > 0) {
+                let next = remaining.slice();
+                next[i] = Math.max(0, next[i] - sortedCapacities[groupIndex][i]);
+
+                if (search(groupIndex + 1, next)) {
+                    return true;
+                }
+            }
+        }
+
+        if (search(groupIndex + 1, remaining)) {
+            return true;
+        }
+
+        failedStates.add(state);
+        return false;
+    };
+
+    return search(0, amounts);
+}
+
+/**
+ * Checks the gender policy, and that the groups have room for the attending
+ * users of each gender under it. Single-gender groups are never mixed to place
+ * a student, so students who can't be placed in one are pointed out: genders
+ * that no group allows, units of more than one gender, and groups that can't
+ * be shared out between the genders.
+ *
+ * @param {Object} input The validation input.
+ * @param {number[]} groupSizes The group sizes.
+ * @return {Object[]} The issues found.
+ */
+let getGenderIssues = function getIssuesWithGender(input: ValidationInput, groupSizes: number[]): ValidationIssue[] {
+    let config = input.gender || { policy: gender.DEFAULT_POLICY };
+    let configError = gender.getConfigError(config);
+
+    if (configError) {
+        return [error(configError)];
+    }
+
+    let issues: ValidationIssue[] = [];
+    let users = attendance.get(input.users).users;
+    let limits = gender.getLimits(users, groupSizes, config, input.groupDefinitions);
+    let distribution = gender.getDistribution(Object.keys(users), limits.genders);
+    let unknownCount = Object.keys(users).filter((username) => gender.get(users, username) === gender.UNKNOWN_GENDER).length;
+
+    if (unknownCount > 0 && config.policy !== 'ignore') {
+        issues.push(warning(unknownCount + ' students have no gender, so they are grouped as ' + gender.UNKNOWN_GENDER + '.'));
+    }
+
+    let genderNames = Object.keys(distribution).sort();
+    let isSplittable = true;
+
+    for (let genderName of genderNames) {
+        let genderCount = distribution[genderName];
+        let genderCapacities = groupSizes.map((groupSize, i) => Math.min(groupSize, limits.getCapacity(i, genderName)));
+
+        if (config.policy === 'single') {
+            let smallestGroupSize = _.min(genderCapacities.filter((capacity) => capacity > 0));
+
+            if (smallestGroupSize === undefined) {
+                issues.push(error('There are ' + genderCount + ' ' + genderName + ' students, but no group allows them. ' +
+                    'Use --genderMapping to choose which groups they join.'));
+                isSplittable = false;
+            } else if (genderCount < smallestGroupSize) {
+                issues.push(warning('There are only ' + genderCount + ' ' + genderName + ' students, which is fewer than ' +
+                    'the smallest group, so their group won\'t be full. Use --genderMapping to choose which groups they join.'));
+            }
+        } else if (genderCount > _.sum(genderCapacities)) {
+            issues.push(error('There are ' + genderCount + ' ' + genderName + ' students, but the groups only allow ' +
+                _.sum(genderCapacities) + (input.groupDefinitions || config.policy !== 'half' ? '.' :
+                ' with at most half of each group.')));
+        }
+    }
+
+    if (config.policy !== 'single') {
+        return issues;
+    }
+
+    let units = getUnits(attendance.filterTogetherWith(input.grade.togetherWith || [], attendance.get(input.users)));
+
+    for (let unit of _.uniqWith(_.values(units), _.isEqual)) {
+        if (_.uniq(unit.map((username) => limits.genders[username])).length > 1) {
+            issues.push(error(unit.join(', ') + ' must be together, but have different genders, and groups have only one ' +
+                'gender.'));
+        }
+    }
+
+    let capacities = groupSizes.map((groupSize, i) => genderNames.map((genderName) => Math.min(groupSize, limits.getCapacity(i, genderName))));
+
+    if (isSplittable && !canSplit(genderNames.map((genderName) => distribution[genderName]), capacities)) {
+        issues.push(error('The groups can\'t be shared out between the genders with one gender each, for ' +
+            genderNames.map((genderName) => distribution[genderName] + ' ' + genderName).join(', ') + ' students in groups of ' +
+            groupSizes.join(', ') + '. Use --genderMapping to choose which groups some students join, or change the groups.'));
+    }
+
+    return issues;
+}
+
+/**
+ * Checks that the balance constraints are well-formed and can be met by the
+ * attending students in the grade.
+ *
+ * @param {Object} input The validation input.
+ * @param {number[]} groupSizes The group sizes.
+ * @return {Object[]} The issues found.
+ */
+let getBalanceIssues = function getIssuesWithBalance(input: ValidationInput, groupSizes: number[]): ValidationIssue[] {
+    let constraints = input.balanceConstraints || [];
+    let constraintError = balance.getConstraintError(constraints);
+
+    if (constraintError) {
+        return [error(constraintError)];
+    }
+
+    let issues: ValidationIssue[] = [];
+
+    for (let constraint of constraints) {
+        let usernames = Object.keys(input.users).filter((username) => attendance.isAttending(input.users, username));
+        let distribution = balance.getDistribution(usernames, constraint.attribute, input.users);
+        let values = constraint.value === undefined ? Object.keys(distribution) : [String(constraint.value)];
+
+        for (let value of values) {
+            let amount = distribution[value] || 0;
+
+            if (constraint.max !== undefined && amount > constraint.max * groupSizes.length) {
+                issues.push(error('There are ' + amount + ' students with ' + constraint.attribute + ' ' + value +
+                    ', but ' + groupSizes.length + ' groups of at most ' + constraint.max + ' only allow ' +
+                    constraint.max * groupSizes.length + '.'));
+            }
+
+            if (constraint.min !== undefined && amount < constraint.min * groupSizes.length) {
+                issues.push(error('There are ' + amount + ' students with ' + constraint.attribute + ' ' + value +
+                    ', but ' + groupSizes.length + ' groups of at least ' + constraint.min + ' need ' +
+                    constraint.min * groupSizes.length + '.'));
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Checks that the pins refer to real users and groups, and that the users
+ * pinned to each group fit within its size and gender limits and don't have a
+ * hard anti-preference with each other.
+ *
+ * @param {Object} input The validation input.
+ * @param {number[]} groupSizes The group sizes.
+ * @return {Object[]} The issues found.
+ */
+let getPinIssues = function getIssuesWithPins(input: ValidationInput, groupSizes: number[]): ValidationIssue[] {
+    let currentAttendance = attendance.get(input.users);
+    let entries = attendance.filterPins(input.pins || {}, currentAttendance);
+    let definitions = input.groupDefinitions;
+    let groupNames = definitions ? definitions.map((definition) => definition.name) : input.grade.groupNames || [];
+    let togetherWith = attendance.filterTogetherWith(input.grade.togetherWith || [], currentAttendance);
+    let issues = pins.getErrors(entries, input.users, groupSizes.length, groupNames, togetherWith).map(error);
+    let resolved = pins.resolve(entries, groupSizes.length, groupNames);
+    let units = getUnits(togetherWith);
+    let lookup = antiPreferences.getLookup(antiPreferences.parse(input.grade.antiPreferences || [], input.users));
+    let genderConfig = input.gender || { policy: gender.DEFAULT_POLICY };
+    let limits = gender.getLimits(currentAttendance.users, groupSizes, gender.getConfigError(genderConfig) ? { policy: 'ignore' } :
+        genderConfig, definitions);
+
+    for (let i = 0; i < groupSizes.length; i++) {
+        let pinnedUsernames = Object.keys(resolved).filter((username) => resolved[username] === i && !!input.users[username]);
+        let group = _.uniq(_.flatten(pinnedUsernames.map((username) => units[username] || [username])));
+        let label = 'group ' + (groupNames[i] || i + 1);
+
+        if (group.length === 0) {
+            continue;
+        }
+
+        if (getAllMultiplier(group) > groupSizes[i]) {
+            issues.push(error(getAllMultiplier(group) + ' students are pinned to ' + label + ', which only has room for ' +
+                groupSizes[i] + '.'));
+        }
+
+        let distribution = gender.getDistribution(group, limits.genders);
+
+        for (let genderName of Object.keys(distribution).sort()) {
+            let genderCapacity = limits.getCapacity(i, genderName);
+
+            if (distribution[genderName] > genderCapacity) {
+                issues.push(error(distribution[genderName] + ' ' + genderName + ' students are pinned to ' + label +
+                    ', which only allows ' + genderCapacity + '.'));
+            }
+        }
+
+        if (limits.isMixed(group, i)) {
+            issues.push(error('Students of more than one gender are pinned to ' + label + ', but groups have only one gender.'));
+        }
+
+        for (let username of group) {
+            if (!groupDefinitions.isEligible(input.users, username, i, definitions)) {
+                issues.push(error(username + ' is pinned to ' + label + ', but isn\'t eligible for it.'));
+            }
+        }
+
+        for (let username of group) {
+            if (!canTryJoiningGroup(lookup, group.filter((member) => member < username), username)) {
+                issues.push(error(username + ' is pinned to ' + label + ' with someone they have a hard anti-preference with.'));
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Checks that every attending user, along with the rest of their unit, is
+ * eligible for at least one of the named groups.
+ *
+ * @param {Object} input The validation input.
+ * @param {Object[]} definitions The group definitions.
+ * @return {Object[]} The issues found.
+ */
+let getEligibilityIssues = function getIssuesWithEligibility(input: ValidationInput, definitions: GroupDefinition[]): ValidationIssue[] {
+    let issues: ValidationIssue[] = [];
+    let currentAttendance = attendance.get(input.users);
+    let units = getUnits(attendance.filterTogetherWith(input.grade.togetherWith || [], currentAttendance));
+
+    for (let username of Object.keys(currentAttendance.users)) {
+        let unit = units[username] || [username];
+
+        if (unit.indexOf(username) > 0) {
+            continue;
+        }
+
+        let isEligibleSomewhere = definitions.some((definition, i) => {
+            return unit.every((member) => groupDefinitions.isEligible(input.users, member, i, definitions));
+        });
+
+        if (!isEligibleSomewhere) {
+            issues.push(error(unit.length > 1 ? unit.join(', ') + ' must be together, but no group accepts all of them.' :
+                username + ' isn\'t eligible for any group.'));
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Checks the anti-preferences and together-links, including links that can't
+ * fit in a group and links between users who have an anti-preference. Users
+ * who aren't going are left out of both, just as they are when grouping.
+ *
+ * @param {Object} input The validation input.
+ * @return {Object[]} The issues found.
+ */
+let getLinkIssues = function getIssuesWithLinks(input: ValidationInput): ValidationIssue[] {
+    let currentAttendance = attendance.get(input.users);
+    let parsed = attendance.filterAntiPreferences(antiPreferences.parse(input.grade.antiPreferences || [], input.users), currentAttendance);
+    let issues = antiPreferences.getErrors(parsed, input.users).map(error);
+    let togetherWith = attendance.filterTogetherWith(input.grade.togetherWith || [], currentAttendance);
+    let units = getUnits(togetherWith);
+
+    for (let combination of togetherWith) {
+        for (let username of combination.split('__')) {
+            if (!input.users[username]) {
+                issues.push(error(username + ' is linked together in ' + combination + ' but is not in ' + input.gradeName + '.'));
+            }
+        }
+    }
+
+    for (let antiPreference of parsed) {
+        let unit = units[antiPreference.usernameA];
+
+        if (!unit || !unit.includes(antiPreference.usernameB)) {
+            continue;
+        }
+
+        let message = antiPreference.usernameA + ' and ' + antiPreference.usernameB + ' must be together, but have a ' +
+            antiPreference.severity + ' anti-preference' + (antiPreference.reason ? ' (' + antiPreference.reason + ')' : '') + '.';
+        issues.push(antiPreference.severity === 'hard' ? error(message) : warning(message));
+    }
+
+    if (input.groupSizes) {
+        let biggestGroupSize = _.max(input.groupSizes)!;
+
+        for (let unit of _.uniq(_.values(units))) {
+            if (getAllMultiplier(unit) > biggestGroupSize) {
+                issues.push(error(unit.join(', ') + ' must be together, but the biggest group only has room for ' +
+                    biggestGroupSize + '.'));
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Checks a grade's data for problems before it is grouped.
+ *
+ * @param {Object} input The validation input.
+ * @return {Object[]} Every issue found, with errors first.
+ */
+export let validate = function validateGrade(input: ValidationInput): ValidationIssue[] {
+    let issues = getPreferenceIssues(input)
+        .concat(getNameIssues(input))
+        .concat(getLinkIssues(input));
+
+    let definitionError = input.groupDefinitions && groupDefinitions.getError(input.groupDefinitions);
+
+    if (definitionError) {
+        issues.push(error(definitionError));
+    } else if (input.groupDefinitions) {
+        issues = issues.concat(getEligibilityIssues(input, input.groupDefinitions));
+    }
+
+    if (input.groupSizes && !definitionError) {
+        issues = issues.concat(getCapacityIssues(input, input.groupSizes))
+            .concat(getGenderIssues(input, input.groupSizes))
+            .concat(getBalanceIssues(input, input.groupSizes))
+            .concat(getPinIssues(input, input.groupSizes));
+    }
+
+    return _.sortBy(issues, (issue) => issue.level === 'error' ? 0 : 1);
+}
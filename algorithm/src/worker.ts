@@ -0,0 +1,18 @@
+import { parentPort, workerData } from 'worker_threads';
+import { runRange } from './engine';
+import { WorkerMessage } from './types';
+
+/**
+ * Sends a message back to the thread that started this worker.
+ *
+ * @param {Object} message The message to send.
+ */
+let send = function sendMessage(message: WorkerMessage): void {
+    parentPort!.postMessage(message);
+}
+
+let best = runRange(workerData.input, workerData.settings, workerData.start, workerData.end, (event) => {
+    send({ type: 'progress', event });
+});
+
+send({ type: 'best', best });
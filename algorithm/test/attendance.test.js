@@ -0,0 +1,49 @@
+let assert = require('assert');
+let attendance = require('../dist/attendance');
+let { describe, it } = require('node:test');
+
+let users = {
+    a: { preferences: ['b', 'c', 'd'] },
+    b: { preferences: ['a'], isGoing: true },
+    c: { preferences: ['a'], isGoing: false },
+    d: { preferences: ['c'] },
+    e: {},
+};
+
+describe('attendance.get', () => {
+    it('excludes only the users who aren\'t going', () => {
+        let result = attendance.get(users);
+
+        assert.deepStrictEqual(Object.keys(result.users), ['a', 'b', 'd', 'e']);
+        assert.deepStrictEqual(result.excluded.map((exclusion) => exclusion.username), ['c']);
+    });
+
+    it('drops picks of users who aren\'t going, moving later picks up', () => {
+        let result = attendance.get(users);
+
+        assert.deepStrictEqual(result.users.a.preferences, ['b', 'd']);
+        assert.deepStrictEqual(result.droppedPicks, [{ username: 'a', pick: 'c' }, { username: 'd', pick: 'c' }]);
+    });
+
+    it('leaves users whose every pick was dropped without preferences', () => {
+        let result = attendance.get(users);
+
+        assert.strictEqual(result.users.d.preferences, undefined);
+        assert.deepStrictEqual(result.emptiedUsernames, ['d']);
+    });
+
+    it('doesn\'t change the user details it was given', () => {
+        attendance.get(users);
+
+        assert.deepStrictEqual(users.a.preferences, ['b', 'c', 'd']);
+        assert.deepStrictEqual(users.d.preferences, ['c']);
+    });
+});
+
+describe('attendance.filterTogetherWith', () => {
+    it('removes excluded users, and links left with a single user', () => {
+        let result = attendance.get(users);
+
+        assert.deepStrictEqual(attendance.filterTogetherWith(['a__b__c', 'c__d'], result), ['a__b']);
+    });
+});
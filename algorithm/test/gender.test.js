@@ -0,0 +1,87 @@
+let assert = require('assert');
+let gender = require('../dist/gender');
+let { describe, it } = require('node:test');
+
+// Four male students and two female students, some with older records, along
+// with a nonbinary student and a student without a gender.
+let users = {
+    m1: { gender: 'male' },
+    m2: { gender: 'Boy' },
+    m3: { gender: 'male' },
+    m4: { isMale: true },
+    f1: { gender: 'female' },
+    f2: { isMale: false },
+    n1: { gender: 'nonbinary' },
+    u1: {},
+};
+
+describe('gender.getLimits', () => {
+    it('reads older spellings and records', () => {
+        let limits = gender.getLimits(users, [4, 4], { policy: 'half' });
+
+        assert.strictEqual(limits.genders.m2, 'male');
+        assert.strictEqual(limits.genders.m4, 'male');
+        assert.strictEqual(limits.genders.f2, 'female');
+        assert.strictEqual(limits.genders.u1, gender.UNKNOWN_GENDER);
+    });
+
+    it('lets a group have up to half of its size of any one gender', () => {
+        let limits = gender.getLimits(users, [5, 3], { policy: 'half' });
+
+        assert.strictEqual(limits.getCapacity(0, 'male'), 2);
+        assert.strictEqual(limits.getCapacity(1, 'female'), 1);
+    });
+
+    it('gives each group its share of each gender, rounded up', () => {
+        let limits = gender.getLimits(users, [4, 4], { policy: 'proportional' });
+
+        // Half of the eight students are male, and one is nonbinary.
+        assert.strictEqual(limits.getCapacity(0, 'male'), 2);
+        assert.strictEqual(limits.getCapacity(0, 'nonbinary'), 1);
+        assert.strictEqual(limits.getCapacity(0, 'other'), 0);
+    });
+
+    it('has no limits when gender is ignored, even with defined capacities', () => {
+        let definitions = [{ name: 'Cabin A', capacity: 4, genderCapacities: { male: 1 } }];
+        let limits = gender.getLimits(users, [4], { policy: 'ignore' }, definitions);
+
+        assert.strictEqual(limits.getCapacity(0, 'male'), Infinity);
+        assert.strictEqual(limits.isMixed(['m1', 'f1'], 0), false);
+    });
+
+    it('uses the capacities of a group definition before the policy', () => {
+        let definitions = [
+            { name: 'Cabin A', capacity: 4, genderCapacities: { Boy: 1 } },
+            { name: 'Cabin B', capacity: 4, femaleCapacity: 4 },
+        ];
+        let limits = gender.getLimits(users, [4, 4], { policy: 'half' }, definitions);
+
+        assert.strictEqual(limits.getCapacity(0, 'male'), 1);
+        assert.strictEqual(limits.getCapacity(0, 'female'), 2);
+        assert.strictEqual(limits.getCapacity(1, 'female'), 4);
+    });
+
+    it('keeps single-gender groups to their defined gender', () => {
+        let definitions = [
+            { name: 'Cabin A', capacity: 4, gender: 'male' },
+            { name: 'Cabin B', capacity: 4 },
+        ];
+        let limits = gender.getLimits(users, [4, 4], { policy: 'single' }, definitions);
+
+        assert.strictEqual(limits.getCapacity(0, 'male'), Infinity);
+        assert.strictEqual(limits.getCapacity(0, 'female'), 0);
+        assert.strictEqual(limits.getCapacity(1, 'female'), Infinity);
+        assert.strictEqual(limits.isMixed(['m1', 'm4'], 0), false);
+        assert.strictEqual(limits.isMixed(['f1'], 0), true);
+        assert.strictEqual(limits.isMixed(['f1', 'f2'], 1), false);
+        assert.strictEqual(limits.isMixed(['f1', 'n1'], 1), true);
+    });
+
+    it('maps users by username or gender with single-gender groups', () => {
+        let limits = gender.getLimits(users, [4, 4], { policy: 'single', mapping: { nonbinary: 'female', u1: 'm' } });
+
+        assert.strictEqual(limits.genders.n1, 'female');
+        assert.strictEqual(limits.genders.u1, 'male');
+        assert.strictEqual(limits.isMixed(['f1', 'n1'], 1), false);
+    });
+});
@@ -0,0 +1,80 @@
+let assert = require('assert');
+let input = require('../dist/input');
+let plan = require('../dist/plan');
+let { describe, it } = require('node:test');
+
+describe('input.getGroupSizes', () => {
+    it('parses dash-separated sizes, biggest first', () => {
+        assert.deepStrictEqual(input.getGroupSizes('11-12-12'), [12, 12, 11]);
+    });
+});
+
+describe('input.isValidGroupSizes', () => {
+    it('accepts whole numbers of at least 1', () => {
+        assert.strictEqual(input.isValidGroupSizes([12, 12, 11]), true);
+        assert.strictEqual(input.isValidGroupSizes([1]), true);
+    });
+
+    it('rejects sizes that are missing, too small, or not whole numbers', () => {
+        assert.strictEqual(input.isValidGroupSizes([]), false);
+        assert.strictEqual(input.isValidGroupSizes(input.getGroupSizes('12-abc')), false);
+        assert.strictEqual(input.isValidGroupSizes(input.getGroupSizes('0-120')), false);
+        assert.strictEqual(input.isValidGroupSizes([12, 11.5]), false);
+        assert.strictEqual(input.isValidGroupSizes(['12', 12]), false);
+    });
+});
+
+describe('input.getRunArgumentError', () => {
+    let getError = (argv, makesRuns) => input.getRunArgumentError(input.getRunArguments(argv), makesRuns);
+
+    it('accepts the usual arguments', () => {
+        assert.strictEqual(getError({ power: 3 }), undefined);
+        assert.strictEqual(getError({ power: 3, seed: 12, workers: 2, rankWeights: '4-3-2-1', out: 'groups.csv' }), undefined);
+    });
+
+    it('runs until stopped with a time limit or patience alone', () => {
+        let runArguments = input.getRunArguments({ timeLimit: 60 });
+
+        assert.strictEqual(runArguments.runPower, input.MAX_RUN_POWER);
+        assert.strictEqual(input.getRunArgumentError(runArguments), undefined);
+        assert.strictEqual(getError({ patience: 1000 }), undefined);
+    });
+
+    it('needs a number of runs unless regrouping', () => {
+        assert.ok(getError({}));
+        assert.strictEqual(getError({}, false), undefined);
+    });
+
+    it('rejects invalid run amounts', () => {
+        assert.ok(getError({ power: input.MAX_RUN_POWER + 1 }));
+        assert.ok(getError({ power: 'abc' }));
+        assert.ok(getError({ power: 3, timeLimit: 0 }));
+        assert.ok(getError({ power: 3, patience: 2.5 }));
+    });
+
+    it('rejects invalid seeds, workers, and rank weights', () => {
+        assert.ok(getError({ power: 3, seed: -1 }));
+        assert.ok(getError({ power: 3, workers: 0 }));
+        assert.ok(getError({ power: 3, rankWeights: '0-0' }));
+    });
+
+    it('rejects unknown policies and formats', () => {
+        assert.ok(getError({ power: 3, genderPolicy: 'none' }));
+        assert.ok(getError({ power: 3, genderPolicy: 'half', genderMapping: 'nonbinary=female' }));
+        assert.ok(getError({ power: 3, objective: 'best' }));
+        assert.ok(getError({ power: 3, out: 'groups.txt' }));
+        assert.ok(getError({ power: 3, format: 'pdf' }));
+    });
+});
+
+describe('plan.getError', () => {
+    it('accepts valid sizes as a string or a list', () => {
+        assert.strictEqual(plan.getError([{ grade: 'grade2021', sizes: '12-12-11' }, { grade: 'grade2022', sizes: [12, 11] }]), undefined);
+    });
+
+    it('rejects invalid sizes', () => {
+        assert.ok(plan.getError([{ grade: 'grade2021', sizes: '12-abc' }]));
+        assert.ok(plan.getError([{ grade: 'grade2021', sizes: [0, 12] }]));
+        assert.ok(plan.getError([{ grade: 'grade2021', sizes: [] }]));
+    });
+});
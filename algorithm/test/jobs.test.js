@@ -0,0 +1,54 @@
+let assert = require('assert');
+let jobs = require('../dist/jobs');
+let { describe, it } = require('node:test');
+
+describe('jobs.getRequestError', () => {
+    it('accepts a grade with its group settings', () => {
+        assert.strictEqual(jobs.getRequestError({ grade: 'grade2021' }), undefined);
+        assert.strictEqual(jobs.getRequestError({
+            grade: 'grade2021',
+            sizes: [12, 12, 11],
+            balance: [{ attribute: 'advisory', max: 3 }],
+            history: ['grade2020'],
+            gender: { policy: 'single', mapping: { nonbinary: 'female' } },
+            rankWeights: [4, 3, 2, 1],
+            power: 3,
+            timeLimit: 60,
+            patience: 1000,
+            seed: 12,
+            workers: 2,
+            objective: { strategy: 'worst-case' },
+        }), undefined);
+        assert.strictEqual(jobs.getRequestError({ grade: 'grade2021', groups: [{ name: 'Cabin A', capacity: 12 }] }), undefined);
+    });
+
+    it('needs a grade ID', () => {
+        assert.ok(jobs.getRequestError(undefined));
+        assert.ok(jobs.getRequestError({}));
+        assert.ok(jobs.getRequestError({ grade: '' }));
+    });
+
+    it('rejects invalid group settings', () => {
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', sizes: '12-12', groups: [] }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', sizes: '12-abc' }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', sizes: [0, 12] }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', groups: 'cabins.json' }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', pins: 'pins.json' }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', history: 'grade2020' }));
+    });
+
+    it('rejects invalid run settings', () => {
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', power: 2.5 }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', power: 9 }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', timeLimit: 0 }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', patience: 0 }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', seed: -1 }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', workers: 0 }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', rankWeights: '4-3-2-1' }));
+    });
+
+    it('rejects unknown policies and objectives', () => {
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', gender: { policy: 'none' } }));
+        assert.ok(jobs.getRequestError({ grade: 'grade2021', objective: { strategy: 'best' } }));
+    });
+});
@@ -0,0 +1,98 @@
+let assert = require('assert');
+let engine = require('../dist/engine');
+let solver = require('../dist/solver');
+let { describe, it } = require('node:test');
+
+// Two groups of three friends, who each pick the other two.
+let preferences = {
+    a: ['b', 'c'],
+    b: ['a', 'c'],
+    c: ['a', 'b'],
+    d: ['e', 'f'],
+    e: ['d', 'f'],
+    f: ['d', 'e'],
+};
+
+let getInput = function getSmallGradeInput(changes) {
+    let users = {};
+
+    for (let username in preferences) {
+        users[username] = { preferences: preferences[username] };
+    }
+
+    return Object.assign({ users, preferences, antiPreferences: [], groupSizes: [3, 3] }, changes);
+}
+
+let options = { gender: { policy: 'ignore' }, timeLimit: 10000, seed: 1 };
+let sortGroups = (groups) => groups.map((group) => group.slice().sort()).sort();
+
+describe('solver.solve', () => {
+    it('finds the best groups and proves that they are', () => {
+        let outcome = solver.solve(getInput(), options);
+
+        assert.deepStrictEqual(sortGroups(outcome.groups), [['a', 'b', 'c'], ['d', 'e', 'f']]);
+        assert.strictEqual(outcome.minFriends, 2);
+        assert.strictEqual(outcome.upperBound, 2);
+        assert.strictEqual(outcome.isOptimal, true);
+        assert.strictEqual(outcome.isTimedOut, false);
+    });
+
+    it('keeps to hard anti-preferences', () => {
+        let outcome = solver.solve(getInput({ antiPreferences: [{ usernameA: 'a', usernameB: 'b', severity: 'hard' }] }), options);
+
+        assert.ok(outcome.groups.every((group) => !(group.includes('a') && group.includes('b'))));
+        assert.strictEqual(outcome.minFriends, 0);
+        assert.strictEqual(outcome.isOptimal, true);
+    });
+
+    it('keeps pinned users in their groups', () => {
+        let outcome = solver.solve(getInput({ pins: { a: 1, d: 0 } }), options);
+
+        assert.deepStrictEqual(outcome.groups.map((group) => group.slice().sort()), [['d', 'e', 'f'], ['a', 'b', 'c']]);
+    });
+
+    it('finds nothing when no groups fit the limits', () => {
+        let antiPreferences = [
+            { usernameA: 'a', usernameB: 'b', severity: 'hard' },
+            { usernameA: 'a', usernameB: 'c', severity: 'hard' },
+            { usernameA: 'b', usernameB: 'c', severity: 'hard' },
+        ];
+        let outcome = solver.solve(getInput({ antiPreferences, groupSizes: [4, 2] }), options);
+
+        assert.strictEqual(outcome.groups, undefined);
+        assert.strictEqual(outcome.upperBound, -Infinity);
+    });
+});
+
+describe('solver.solveFromResult', () => {
+    let objectiveConfig = { strategy: 'worst-case' };
+    let makeGroups = (input) => engine.makeGroups(input, { runAmount: 100, gender: options.gender, seed: 1, workerAmount: 1 });
+
+    it('ends with the best groups', () => {
+        let input = getInput();
+
+        return makeGroups(input).then((heuristicResult) => {
+            let result = solver.solveFromResult(input, heuristicResult, options, objectiveConfig);
+
+            assert.deepStrictEqual(sortGroups(result.groups), [['a', 'b', 'c'], ['d', 'e', 'f']]);
+            assert.strictEqual(result.statistics.minFriends, 2);
+            assert.strictEqual(result.solver.minFriends, 2);
+        });
+    });
+
+    it('keeps the heuristic\'s groups when the solver\'s break a soft anti-preference', () => {
+        let antiPreferences = [{ usernameA: 'a', usernameB: 'b', severity: 'soft' }];
+        let input = getInput({ antiPreferences });
+
+        // The runs are pinned to keep a and b apart, at the cost of friends.
+        return makeGroups(getInput({ antiPreferences, pins: { a: 0, b: 1 } })).then((heuristicResult) => {
+            let result = solver.solveFromResult(input, heuristicResult, options, objectiveConfig);
+
+            // The solver only looks at friends, so it puts a and b together.
+            assert.strictEqual(result.solver.minFriends, 2);
+            assert.ok(heuristicResult.statistics.minFriends < 2);
+            assert.deepStrictEqual(result.groups, heuristicResult.groups);
+            assert.deepStrictEqual(result.score, heuristicResult.score);
+        });
+    });
+});
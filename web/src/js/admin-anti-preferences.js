@@ -1,30 +1,74 @@
 import firebase from '../js/database.js';
 
-export function updateAntiPreference(gradeID, oldAntiPreferenceString, newAntiPreferenceUsernameA, newAntiPreferenceUsernameB) {
+// Older anti-preferences are stored as `a__b` strings, which are always hard.
+// Since usernames may contain `__` themselves, the split that gives two known
+// usernames is used, falling back to the first `__`, as the algorithm does.
+export function parseAntiPreference(antiPreference, usernames) {
+    if (typeof antiPreference === 'string') {
+        let index = antiPreference.indexOf('__');
+
+        while (index !== -1) {
+            let usernameA = antiPreference.slice(0, index);
+            let usernameB = antiPreference.slice(index + 2);
+
+            if (usernames.includes(usernameA) && usernames.includes(usernameB)) {
+                return { usernameA, usernameB, severity: 'hard' };
+            }
+
+            index = antiPreference.indexOf('__', index + 1);
+        }
+
+        index = antiPreference.indexOf('__');
+
+        return {
+            usernameA: index === -1 ? antiPreference : antiPreference.slice(0, index),
+            usernameB: index === -1 ? '' : antiPreference.slice(index + 2),
+            severity: 'hard',
+        };
+    }
+
+    return antiPreference;
+}
+
+function createAntiPreference(usernameA, usernameB, severity, reason) {
+    let antiPreference = { usernameA, usernameB, severity };
+
+    // Firestore doesn't allow undefined fields, so only add a reason if
+    // there is one.
+    if (reason) {
+        antiPreference.reason = reason;
+    }
+
+    return antiPreference;
+}
+
+export function updateAntiPreference(gradeID, oldAntiPreference, newUsernameA, newUsernameB, newSeverity, newReason) {
     let db = firebase.firestore();
 
-    return deleteAntiPreferenceString(gradeID, oldAntiPreferenceString).then(() => {
-        let newAntiPreferenceString = newAntiPreferenceUsernameA + '__' + newAntiPreferenceUsernameB;
+    return deleteAntiPreference(gradeID, oldAntiPreference).then(() => {
+        let newAntiPreference = createAntiPreference(newUsernameA, newUsernameB, newSeverity, newReason);
 
         return db.collection('grades').doc(gradeID).set({
-            antiPreferences: firebase.firestore.FieldValue.arrayUnion(newAntiPreferenceString),
+            antiPreferences: firebase.firestore.FieldValue.arrayUnion(newAntiPreference),
         }, { merge: true });
     });
 }
 
-export function addAntiPreference(gradeID, newAntiPreferenceUsernameA, newAntiPreferenceUsernameB) {
+export function addAntiPreference(gradeID, newUsernameA, newUsernameB, newSeverity, newReason) {
     let db = firebase.firestore();
-    let newAntiPreferenceString = newAntiPreferenceUsernameA + '__' + newAntiPreferenceUsernameB;
+    let newAntiPreference = createAntiPreference(newUsernameA, newUsernameB, newSeverity, newReason);
 
     return db.collection('grades').doc(gradeID).set({
-        antiPreferences: firebase.firestore.FieldValue.arrayUnion(newAntiPreferenceString),
+        antiPreferences: firebase.firestore.FieldValue.arrayUnion(newAntiPreference),
     }, { merge: true });
 }
 
-export function deleteAntiPreferenceString(gradeID, antiPreferenceString) {
+// Removes either an older string or an object, since `arrayRemove` compares
+// both by value.
+export function deleteAntiPreference(gradeID, antiPreference) {
     let db = firebase.firestore();
 
     return db.collection('grades').doc(gradeID).set({
-        antiPreferences: firebase.firestore.FieldValue.arrayRemove(antiPreferenceString),
+        antiPreferences: firebase.firestore.FieldValue.arrayRemove(antiPreference),
     }, { merge: true });
 }
@@ -1,5 +1,14 @@
 import firebase from '../js/database.js';
 
+// The algorithm reads `gender` before `isMale`, so both are written to keep
+// them from disagreeing.
+function getGenderFields(isMale) {
+    return {
+        isMale,
+        gender: isMale ? 'male' : 'female',
+    };
+}
+
 export function checkUsernameAvailable(gradeID, newUsername) {
     let db = firebase.firestore();
 
@@ -32,10 +41,9 @@ export function addUser(gradeID, newUsername, newName, newIsMale) {
             },
         }, { merge: true });
     }).then(() => {
-        return db.collection('user-records').doc(newUsername).set({
-            isMale: newIsMale,
+        return db.collection('user-records').doc(newUsername).set(Object.assign(getGenderFields(newIsMale), {
             grade: gradeID,
-        });
+        }));
     });
 }
 
@@ -49,9 +57,7 @@ export function updateUser(gradeID, oldUsername, newUsername, newName, newIsMale
             },
         }, { merge: true });
 
-        let userPromise = db.collection('user-records').doc(oldUsername).set({
-            isMale: newIsMale,
-        }, { merge: true });
+        let userPromise = db.collection('user-records').doc(oldUsername).set(getGenderFields(newIsMale), { merge: true });
 
         return Promise.all([gradePromise, userPromise]);
     }
@@ -75,7 +81,7 @@ export function updateUser(gradeID, oldUsername, newUsername, newName, newIsMale
             },
         }, { merge: true });
     }).then(() => {
-        return db.collection('user-records').doc(newUsername).set(oldUserRecord);
+        return db.collection('user-records').doc(newUsername).set(Object.assign({}, oldUserRecord, getGenderFields(newIsMale)));
     });
 }
 